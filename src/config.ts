@@ -2,15 +2,31 @@
  * 配置模块 - 从 VSCode 配置读取配置
  */
 
+import { SecretPolicy } from './index/secretScanner';
+
 export interface Config {
+  // 检索后端：remote（默认）或 local（离线）
+  backend: string;
   baseUrl: string;
   token: string;
   batchSize: number;
+  uploadConcurrency: number;
   maxLinesPerBlob: number;
+  maxFileSizeKB: number;
+  maxLineLength: number;
+  encodingOverrides: Record<string, string>;
+  previewBeforeFirstIndex: boolean;
+  secretPolicy: SecretPolicy;
+  secretAllowlist: string[];
   textExtensions: Set<string>;
   excludePatterns: string[];
   enableLog: boolean;
   userGuidelines?: string;
+  // 聊天中搜索时随查询发送的最近问答轮数，0 表示不发送
+  dialogTurns: number;
+  // 检索时是否包含最近提交的说明和 diff，以及包含的提交数量
+  commitRetrieval: boolean;
+  commitHistoryDepth: number;
   mcpServerPort?: number;
   enableMcpServer?: boolean;
 }
@@ -1,25 +1,45 @@
-﻿import * as vscode from 'vscode';
+﻿import fs from 'fs';
+import path from 'path';
+import * as vscode from 'vscode';
 import { ChatService } from './services/ChatService';
-import { IndexManager } from './index/manager';
+import {
+  IndexManager,
+  indexManagerOptions,
+  isCancellationError,
+  setFirstIndexGuard,
+  setIndexScheduler
+} from './index/manager';
+import { FINGERPRINT_PREFIX } from './index/secretScanner';
+import { registerRetrievalBackend } from './index/backend';
 import { Config } from './config';
 import { getVSCodeConfig, sendLog } from './utils/VSCodeAdapter';
-import { SidebarProvider } from './views/SidebarProvider';
+import { SidebarItem, SidebarProvider } from './views/SidebarProvider';
 import { ChatViewProvider } from './views/ChatViewProvider';
+import { ReportDocumentProvider } from './views/ReportDocumentProvider';
+import { SearchHistoryItem, SearchHistoryProvider, describeSearchHistoryEntry } from './views/SearchHistoryProvider';
+import { SearchHistory, SearchHistoryEntry } from './services/searchHistory';
+import { formatBytes, formatIndexPreview, formatSecretReport, formatVerifyReport } from './views/indexReports';
 import { MCPServer } from './mcp/server';
+import { IndexFileWatcher } from './index/watcher';
+import { IndexJobQueue } from './index/jobQueue';
+import { addAceignoreRule } from './index/ignoreRules';
+import { parseSearchScope } from './index/searchScope';
+import { getWorkspaceFolderName, getWorkspaceFolderRoot, getWorkspaceFolderRoots } from './index/workspaceFolders';
 
 let chatService: ChatService | null = null;
 let sidebarProvider: SidebarProvider | null = null;
 let chatViewProvider: ChatViewProvider | null = null;
 let mcpServer: MCPServer | null = null;
+let fileWatcher: IndexFileWatcher | null = null;
+let indexQueue: IndexJobQueue | null = null;
+let reportProvider: ReportDocumentProvider | null = null;
+let searchHistory: SearchHistory | null = null;
+// 等待用户确认的首次索引预览，同一文件夹的并发请求共用一次确认
+const pendingIndexReviews = new Map<string, Promise<boolean>>();
 let isConfigured = false;
 let statusBarItem: vscode.StatusBarItem | null = null;
 let chatStatusBarItem: vscode.StatusBarItem | null = null;
 
-// 索引同步优化相关变量
-let isIndexing = false; // 标志位：是否正在进行索引同步
-let indexDebounceTimers: Map<string, NodeJS.Timeout> = new Map(); // 防抖定时器映射表
-const INDEX_DEBOUNCE_DELAY = 500; // 防抖延迟时间（毫秒）
-
 function openSettings(): void {
   vscode.commands.executeCommand('workbench.action.openSettings', 'ace-sidebar');
 }
@@ -100,6 +120,12 @@ function ensureServices(config: Config): void {
     chatService.updateConfig(config);
   } else {
     chatService = new ChatService(config);
+    if (indexQueue) {
+      chatService.setIndexQueue(indexQueue);
+    }
+    if (searchHistory) {
+      chatService.setSearchHistory(searchHistory);
+    }
   }
 
   // 将 ChatService 设置到 ChatViewProvider
@@ -154,78 +180,532 @@ async function manageMcpServer(config: Config): Promise<void> {
 }
 
 /**
- * 执行文件索引同步（带防抖和去重机制）
- * @param filePath 文件路径
- * @param config 配置对象
+ * 使用最新配置为工作区文件夹创建 IndexManager
  */
-async function indexFileWithDebounce(filePath: string, config: Config): Promise<void> {
-  // 清除该文件之前的防抖定时器
-  const existingTimer = indexDebounceTimers.get(filePath);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-    indexDebounceTimers.delete(filePath);
-  }
-
-  // 创建新的防抖定时器
-  const timer = setTimeout(async () => {
-    // 移除已完成的定时器
-    indexDebounceTimers.delete(filePath);
-
-    // 检查是否已有正在进行的索引任务
-    if (isIndexing) {
-      sendLog('info', `跳过索引同步，当前有正在进行的索引任务: ${filePath}`);
-      return;
+function createIndexManager(projectRoot: string): IndexManager | null {
+  const config = loadConfig(false);
+  if (!config) {
+    return null;
+  }
+  return new IndexManager(projectRoot, indexManagerOptions(config));
+}
+
+/**
+ * 选择要搜索的工作区文件夹，多个文件夹时可选择全部
+ * @returns 文件夹根路径列表，取消选择时返回 undefined
+ */
+async function pickSearchFolders(): Promise<string[] | undefined> {
+  const projectRoots = getWorkspaceFolderRoots();
+  if (projectRoots.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder open. Please open a folder first.');
+    return undefined;
+  }
+  if (projectRoots.length === 1) {
+    return projectRoots;
+  }
+
+  const items = [
+    { label: 'All folders', description: `${projectRoots.length} folders`, roots: projectRoots },
+    ...projectRoots.map((projectRoot) => ({
+      label: getWorkspaceFolderName(projectRoot),
+      description: projectRoot,
+      roots: [projectRoot]
+    }))
+  ];
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the folder to search' });
+  return picked?.roots;
+}
+
+/**
+ * 选择要维护索引的工作区文件夹，从索引浏览树调用时使用节点所属的文件夹
+ */
+async function pickIndexFolder(item?: SidebarItem): Promise<string | undefined> {
+  if (item?.projectRoot) {
+    return item.projectRoot;
+  }
+  const projectRoots = getWorkspaceFolderRoots();
+  if (projectRoots.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder open. Please open a folder first.');
+    return undefined;
+  }
+  if (projectRoots.length === 1) {
+    return projectRoots[0];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    projectRoots.map((projectRoot) => ({
+      label: getWorkspaceFolderName(projectRoot),
+      description: projectRoot,
+      projectRoot
+    })),
+    { placeHolder: 'Select the folder whose index to maintain' }
+  );
+  return picked?.projectRoot;
+}
+
+/**
+ * 索引维护命令的前置检查：配置有效且队列可用时返回要处理的文件夹
+ */
+async function prepareIndexMaintenance(item?: SidebarItem): Promise<string | undefined> {
+  const latestConfig = loadConfig(true);
+  updateConfigState(latestConfig);
+  if (!latestConfig || !indexQueue) {
+    return undefined;
+  }
+  ensureServices(latestConfig);
+  return pickIndexFolder(item);
+}
+
+async function rebuildIndex(item?: SidebarItem): Promise<void> {
+  const projectRoot = await prepareIndexMaintenance(item);
+  const queue = indexQueue;
+  if (!projectRoot || !queue) {
+    return;
+  }
+
+  const folderName = getWorkspaceFolderName(projectRoot);
+  const confirmed = await vscode.window.showWarningMessage(
+    `Rebuild the index of "${folderName}"? The local index is cleared and every file is read and uploaded again.`,
+    { modal: true },
+    'Rebuild'
+  );
+  if (confirmed !== 'Rebuild') {
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Ace Sidebar: Rebuilding index of ${folderName}`,
+      cancellable: true
+    },
+    async (progress, token) => {
+      const cancelListener = token.onCancellationRequested(() => queue.cancel());
+      if (queue.getStatus().running) {
+        progress.report({ message: 'Waiting for the running index job...' });
+      }
+      try {
+        const result = await queue.enqueueTask(projectRoot, async (indexManager, reporter, jobToken) => {
+          await indexManager.clearIndex();
+          return indexManager.indexProject((update) => {
+            reporter(update);
+            progress.report({ message: update.message });
+          }, jobToken, false);
+        });
+
+        if (!result || result.status === 'cancelled') {
+          vscode.window.showInformationMessage('Ace Sidebar: Rebuild cancelled, remaining files are indexed on the next run');
+        } else if (result.status === 'error') {
+          vscode.window.showErrorMessage(`Ace Sidebar: Rebuild failed - ${result.message}`);
+        } else {
+          vscode.window.showInformationMessage(`Ace Sidebar: ${result.message}`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        sendLog('error', `Rebuild index failed: ${message}`);
+        vscode.window.showErrorMessage(`Ace Sidebar: Rebuild failed - ${message}`);
+      } finally {
+        cancelListener.dispose();
+      }
     }
+  );
+}
 
-    // 设置索引标志
-    isIndexing = true;
+async function clearIndex(item?: SidebarItem): Promise<void> {
+  const projectRoot = await prepareIndexMaintenance(item);
+  const queue = indexQueue;
+  if (!projectRoot || !queue) {
+    return;
+  }
 
-    try {
-      const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (!projectRoot) {
-        return;
+  const folderName = getWorkspaceFolderName(projectRoot);
+  const confirmed = await vscode.window.showWarningMessage(
+    `Clear the index of "${folderName}"? All files are uploaded again on the next index run.`,
+    { modal: true },
+    'Clear'
+  );
+  if (confirmed !== 'Clear') {
+    return;
+  }
+
+  try {
+    const cleared = await queue.enqueueTask(projectRoot, async (indexManager) => {
+      await indexManager.clearIndex();
+      return true;
+    });
+    if (cleared) {
+      vscode.window.showInformationMessage(`Ace Sidebar: Index of "${folderName}" cleared`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Ace Sidebar: Failed to clear index - ${message}`);
+  }
+}
+
+async function verifyIndex(item?: SidebarItem): Promise<void> {
+  const projectRoot = await prepareIndexMaintenance(item);
+  if (!projectRoot) {
+    return;
+  }
+
+  const folderName = getWorkspaceFolderName(projectRoot);
+  const report = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Ace Sidebar: Verifying index of ${folderName}`,
+      cancellable: true
+    },
+    async (_progress, token) => {
+      try {
+        return await createIndexManager(projectRoot)?.verifyIndex(token);
+      } catch (error) {
+        if (!isCancellationError(error)) {
+          const message = error instanceof Error ? error.message : String(error);
+          sendLog('error', `Verify index failed: ${message}`);
+          vscode.window.showErrorMessage(`Ace Sidebar: Verify failed - ${message}`);
+        }
+        return undefined;
       }
+    }
+  );
+  if (!report) {
+    return;
+  }
 
-      const indexManager = new IndexManager(
-        projectRoot,
-        config.baseUrl,
-        config.token,
-        config.textExtensions,
-        config.batchSize,
-        config.maxLinesPerBlob,
-        config.excludePatterns,
-        config.userGuidelines || ''
-      );
-
-      sendLog('info', `开始索引文件: ${filePath}`);
-      
-      await indexManager.indexFile(filePath, (update) => {
-        chatService?.reportIndexProgress(update);
-        chatViewProvider?.reportIndexProgress(update);
-      });
+  const problems = [...report.missing, ...report.stale, ...report.orphaned];
+  if (problems.length === 0) {
+    vscode.window.showInformationMessage(
+      `Ace Sidebar: Index of "${folderName}" is up to date (${report.checkedFiles} files checked)`
+    );
+    return;
+  }
 
-      sendLog('info', `文件索引完成: ${filePath}`);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : String(error);
-      sendLog('error', `索引同步失败: ${message}`);
-    } finally {
-      // 重置索引标志
-      isIndexing = false;
+  await reportProvider?.show(`Index Verification - ${folderName}`, formatVerifyReport(folderName, report));
+
+  const selection = await vscode.window.showWarningMessage(
+    `Ace Sidebar: ${report.missing.length} missing, ${report.stale.length} stale and ${report.orphaned.length} orphaned entries in the index of "${folderName}".`,
+    'Fix'
+  );
+  if (selection === 'Fix') {
+    indexQueue?.enqueueFiles(problems.map((file) => path.join(projectRoot, file)), true);
+  }
+}
+
+/**
+ * activate 返回的扩展 API
+ */
+export interface AceSidebarApi {
+  registerRetrievalBackend: typeof registerRetrievalBackend;
+}
+
+/**
+ * 打开项目根目录的 .aceignore，不存在时先创建
+ */
+async function openAceignore(projectRoot: string): Promise<void> {
+  const filePath = path.join(projectRoot, '.aceignore');
+  if (!fs.existsSync(filePath)) {
+    fs.writeFileSync(filePath, '# Paths excluded from the Ace Sidebar index (gitignore syntax)\n', 'utf-8');
+  }
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+  await vscode.window.showTextDocument(document);
+}
+
+/**
+ * 试运行索引并展示将要上传的内容，用户可修改 .aceignore 后刷新预览
+ * @returns 用户确认上传（或没有需要上传的内容）时返回 true
+ */
+async function reviewIndexUpload(
+  projectRoot: string,
+  indexManager: IndexManager,
+  token?: vscode.CancellationToken
+): Promise<boolean> {
+  const folderName = getWorkspaceFolderName(projectRoot);
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const preview = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Ace Sidebar: Preparing index preview of ${folderName}`,
+        cancellable: true
+      },
+      async (_progress, progressToken) => {
+        const source = new vscode.CancellationTokenSource();
+        const listeners = [
+          progressToken.onCancellationRequested(() => source.cancel()),
+          ...(token ? [token.onCancellationRequested(() => source.cancel())] : [])
+        ];
+        try {
+          return await indexManager.previewIndex(source.token);
+        } catch (error) {
+          if (isCancellationError(error)) {
+            return undefined;
+          }
+          throw error;
+        } finally {
+          listeners.forEach((listener) => listener.dispose());
+          source.dispose();
+        }
+      }
+    );
+    if (!preview || token?.isCancellationRequested) {
+      return false;
+    }
+    if (preview.files.length === 0) {
+      return true;
+    }
+
+    await reportProvider?.show(`Index Preview - ${folderName}`, formatIndexPreview(folderName, preview));
+    const totalChunks = preview.files.reduce((sum, file) => sum + file.chunks, 0);
+    const totalBytes = preview.files.reduce((sum, file) => sum + file.bytes, 0);
+    const choice = await vscode.window.showInformationMessage(
+      `Ace Sidebar: Upload ${preview.files.length} files (${totalChunks} chunks, ${formatBytes(totalBytes)}) from "${folderName}" to the index?`,
+      'Upload',
+      'Edit Excludes',
+      'Cancel'
+    );
+    if (choice === 'Upload') {
+      return !token?.isCancellationRequested;
     }
-  }, INDEX_DEBOUNCE_DELAY);
+    if (choice !== 'Edit Excludes') {
+      return false;
+    }
+
+    await openAceignore(projectRoot);
+    const next = await vscode.window.showInformationMessage(
+      'Ace Sidebar: Save your changes to .aceignore, then refresh the preview.',
+      'Refresh Preview',
+      'Cancel'
+    );
+    if (next !== 'Refresh Preview') {
+      return false;
+    }
+  }
+}
+
+/**
+ * 首次索引确认：启用 previewBeforeFirstIndex 时先展示预览
+ */
+function confirmFirstIndex(
+  projectRoot: string,
+  indexManager: IndexManager,
+  token?: vscode.CancellationToken
+): Promise<boolean> {
+  const config = loadConfig(false);
+  if (!config?.previewBeforeFirstIndex) {
+    return Promise.resolve(true);
+  }
 
-  // 保存定时器
-  indexDebounceTimers.set(filePath, timer);
+  let review = pendingIndexReviews.get(projectRoot);
+  if (!review) {
+    review = reviewIndexUpload(projectRoot, indexManager, token).finally(() => {
+      pendingIndexReviews.delete(projectRoot);
+    });
+    pendingIndexReviews.set(projectRoot, review);
+  }
+  return review;
 }
 
-export function activate(context: vscode.ExtensionContext) {
+async function previewIndex(item?: SidebarItem): Promise<void> {
+  const projectRoot = await prepareIndexMaintenance(item);
+  const indexManager = projectRoot ? createIndexManager(projectRoot) : null;
+  const queue = indexQueue;
+  if (!projectRoot || !indexManager || !queue) {
+    return;
+  }
+
+  try {
+    if (await reviewIndexUpload(projectRoot, indexManager)) {
+      // 已在预览中确认，不再经过首次索引确认
+      void queue.enqueueTask(projectRoot, (manager, reporter, token) => manager.indexProject(reporter, token, false));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    sendLog('error', `Index preview failed: ${message}`);
+    vscode.window.showErrorMessage(`Ace Sidebar: Index preview failed - ${message}`);
+  }
+}
+
+async function showSecretReport(item?: SidebarItem): Promise<void> {
+  const projectRoot = await prepareIndexMaintenance(item);
+  const indexManager = projectRoot ? createIndexManager(projectRoot) : null;
+  const config = loadConfig(false);
+  if (!projectRoot || !indexManager || !config) {
+    return;
+  }
+
+  const folderName = getWorkspaceFolderName(projectRoot);
+  const entries = indexManager.getSecretReport();
+  await reportProvider?.show(`Secret Report - ${folderName}`, formatSecretReport(folderName, entries, config.secretPolicy));
+  if (entries.length === 0) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Ace Sidebar: ${entries.length} files in "${folderName}" had secrets withheld from upload.`,
+    'Allow Findings...'
+  );
+  if (choice === 'Allow Findings...') {
+    await allowSecrets(projectRoot);
+  }
+}
+
+/**
+ * 将选中的检测结果加入白名单（工作区设置），并重新同步相关文件
+ */
+async function allowSecrets(projectRoot: string): Promise<void> {
+  const indexManager = createIndexManager(projectRoot);
+  if (!indexManager) {
+    return;
+  }
+
+  const items = indexManager.getSecretReport().flatMap((entry) =>
+    entry.findings.map((finding) => ({
+      label: `${entry.path}:${finding.line}`,
+      description: `${finding.rule} (${entry.action})`,
+      detail: finding.preview,
+      filePath: entry.path,
+      fingerprint: finding.fingerprint
+    }))
+  );
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: 'Select false positives to allow; they are uploaded unredacted on the next sync'
+  });
+  if (!picked || picked.length === 0) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('ace-sidebar');
+  const allowlist = config.get<string[]>('secretAllowlist', []) || [];
+  const additions = picked.map((item) => `${FINGERPRINT_PREFIX}${item.fingerprint}`);
+  await config.update(
+    'secretAllowlist',
+    [...new Set([...allowlist, ...additions])],
+    vscode.ConfigurationTarget.Workspace
+  );
+  indexQueue?.enqueueFiles([...new Set(picked.map((item) => path.join(projectRoot, item.filePath)))]);
+  vscode.window.showInformationMessage(`Ace Sidebar: Allowed ${picked.length} findings, re-syncing the affected files`);
+}
+
+/**
+ * 搜索前读取最新配置并初始化服务，未配置时提示打开设置
+ */
+function prepareSearch(): boolean {
+  const latestConfig = loadConfig(true);
+  updateConfigState(latestConfig);
+  if (!latestConfig) {
+    vscode.window.showWarningMessage('请先完成配置才能使用搜索功能', '打开设置').then((selection) => {
+      if (selection === '打开设置') {
+        openSettings();
+      }
+    });
+    return false;
+  }
+  ensureServices(latestConfig);
+  return true;
+}
+
+/**
+ * 重新运行历史搜索，结果与上一次相比的变化显示在结果面板顶部
+ */
+async function rerunSearch(target?: SearchHistoryItem | SearchHistoryEntry): Promise<void> {
+  const entry = target instanceof SearchHistoryItem ? target.entry : target;
+  if (!entry || !prepareSearch()) {
+    return;
+  }
+  await chatService!.rerunSearch(entry);
+}
+
+async function removeSearchHistoryEntry(item?: SearchHistoryItem): Promise<void> {
+  if (item) {
+    await searchHistory?.remove(item.entry.id);
+  }
+}
+
+async function clearSearchHistory(): Promise<void> {
+  if (!searchHistory || searchHistory.getEntries().length === 0) {
+    return;
+  }
+  const selection = await vscode.window.showWarningMessage(
+    'Clear the search history of this workspace?',
+    { modal: true },
+    'Clear'
+  );
+  if (selection === 'Clear') {
+    await searchHistory.clear();
+  }
+}
+
+/**
+ * 在快速选择中列出搜索历史，选中后重新运行，条目右侧的按钮可将其从历史中移除
+ */
+async function showSearchHistory(): Promise<void> {
+  if (!searchHistory) {
+    return;
+  }
+  const history = searchHistory;
+  type HistoryPickItem = vscode.QuickPickItem & { entry: SearchHistoryEntry };
+  const removeButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('close'),
+    tooltip: 'Remove from history'
+  };
+  const toItems = (): HistoryPickItem[] => history.getEntries().map((entry) => ({
+    label: entry.query,
+    description: describeSearchHistoryEntry(entry),
+    buttons: [removeButton],
+    entry
+  }));
+
+  const items = toItems();
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('Ace Sidebar: No searches in the history yet');
+    return;
+  }
+
+  const quickPick = vscode.window.createQuickPick<HistoryPickItem>();
+  quickPick.items = items;
+  quickPick.placeholder = 'Select a search to run it again';
+  quickPick.matchOnDescription = true;
+  const picked = await new Promise<SearchHistoryEntry | undefined>((resolve) => {
+    quickPick.onDidTriggerItemButton(async (event) => {
+      await history.remove(event.item.entry.id);
+      quickPick.items = toItems();
+    });
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems[0]?.entry);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => resolve(undefined));
+    quickPick.show();
+  });
+  quickPick.dispose();
+
+  if (picked) {
+    await rerunSearch(picked);
+  }
+}
+
+export function activate(context: vscode.ExtensionContext): AceSidebarApi {
+  // 扩展 API：其他扩展可注册检索后端
+  const api: AceSidebarApi = { registerRetrievalBackend };
+
   // Sidebar
-  sidebarProvider = new SidebarProvider();
+  sidebarProvider = new SidebarProvider(createIndexManager);
   const treeView = vscode.window.createTreeView('aceSidebar', {
     treeDataProvider: sidebarProvider,
-    showCollapseAll: false
+    showCollapseAll: true
   });
-  context.subscriptions.push(treeView);
+  context.subscriptions.push(treeView, sidebarProvider);
+
+  // 搜索历史（按工作区保存）
+  searchHistory = new SearchHistory(context.workspaceState);
+  const searchHistoryProvider = new SearchHistoryProvider(searchHistory);
+  context.subscriptions.push(
+    searchHistory,
+    searchHistoryProvider,
+    vscode.window.registerTreeDataProvider('ace-sidebar.searchHistory', searchHistoryProvider)
+  );
 
   // Chat View Provider (侧边栏内的聊天对话框)
   chatViewProvider = new ChatViewProvider(context.extensionUri, context, getMcpServerStatus);
@@ -242,6 +722,16 @@ export function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(chatViewDisposable);
 
+  // 只读报告文档（索引预览、校验结果）
+  reportProvider = new ReportDocumentProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(ReportDocumentProvider.scheme, reportProvider),
+    reportProvider
+  );
+
+  // 首次上传前展示索引预览
+  setFirstIndexGuard(confirmFirstIndex);
+
   // Status bar
   statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
   chatStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
@@ -259,23 +749,15 @@ export function activate(context: vscode.ExtensionContext) {
       const message = error instanceof Error ? error.message : String(error);
       sendLog('error', `Service initialization failed: ${message}`);
       vscode.window.showErrorMessage(`Ace Sidebar: Failed to initialize services - ${message}`);
-      return;
+      return api;
     }
   }
 
   // Commands
   const searchCommand = vscode.commands.registerCommand('ace-sidebar.searchContext', async () => {
-    const latestConfig = loadConfig(true);
-    updateConfigState(latestConfig);
-    if (!latestConfig) {
-      vscode.window.showWarningMessage('请先完成配置才能使用搜索功能', '打开设置').then((selection) => {
-        if (selection === '打开设置') {
-          openSettings();
-        }
-      });
+    if (!prepareSearch()) {
       return;
     }
-    ensureServices(latestConfig);
 
     const query = await vscode.window.showInputBox({
       prompt: 'Enter your search query',
@@ -292,13 +774,21 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!projectRoot) {
-      vscode.window.showErrorMessage('No workspace folder open. Please open a folder first.');
+    const projectRoots = await pickSearchFolders();
+    if (!projectRoots) {
       return;
     }
 
-    await chatService!.searchAndShowInPanel(projectRoot, query);
+    // 留空时搜索全部已索引文件
+    const scopeText = await vscode.window.showInputBox({
+      prompt: 'Limit the search to folders, globs or languages (optional, leave empty to search all files)',
+      placeHolder: 'e.g., src/api, *.test.ts, lang:python'
+    });
+    if (scopeText === undefined) {
+      return;
+    }
+
+    await chatService!.searchAndShowInPanel(projectRoots, query, parseSearchScope(scopeText));
   });
 
   const chatCommand = vscode.commands.registerCommand('ace-sidebar.openChat', async () => {
@@ -337,7 +827,66 @@ export function activate(context: vscode.ExtensionContext) {
     sidebarProvider?.refresh();
   });
 
-  context.subscriptions.push(searchCommand, chatCommand, openSettingsCommand, refreshCommand, focusChatViewCommand);
+  // 索引浏览树的行内操作
+  const reindexNodeCommand = vscode.commands.registerCommand('ace-sidebar.reindexNode', (item?: SidebarItem) => {
+    if (!item || !indexQueue) {
+      return;
+    }
+    if (item.kind === 'folder') {
+      void indexQueue.enqueueFullIndex(item.projectRoot);
+    } else if (item.kind === 'directory' || item.kind === 'file') {
+      indexQueue.enqueueFiles([item.fsPath], true);
+    }
+  });
+
+  const excludeNodeCommand = vscode.commands.registerCommand('ace-sidebar.excludeNode', async (item?: SidebarItem) => {
+    if (!item || (item.kind !== 'directory' && item.kind !== 'file')) {
+      return;
+    }
+    try {
+      const rule = addAceignoreRule(item.projectRoot, item.relativePath, item.kind === 'directory');
+      indexQueue?.enqueueFiles([item.fsPath]);
+      const message = rule ? `Added "${rule}" to .aceignore` : `${item.relativePath} is already excluded in .aceignore`;
+      const selection = await vscode.window.showInformationMessage(message, 'Open .aceignore');
+      if (selection === 'Open .aceignore') {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(item.projectRoot, '.aceignore')));
+        await vscode.window.showTextDocument(document);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      sendLog('error', `Exclude failed: ${message}`);
+      vscode.window.showErrorMessage(`Ace Sidebar: Failed to update .aceignore - ${message}`);
+    }
+  });
+
+  const rebuildIndexCommand = vscode.commands.registerCommand('ace-sidebar.rebuildIndex', rebuildIndex);
+  const clearIndexCommand = vscode.commands.registerCommand('ace-sidebar.clearIndex', clearIndex);
+  const verifyIndexCommand = vscode.commands.registerCommand('ace-sidebar.verifyIndex', verifyIndex);
+  const previewIndexCommand = vscode.commands.registerCommand('ace-sidebar.previewIndex', previewIndex);
+  const showSecretReportCommand = vscode.commands.registerCommand('ace-sidebar.showSecretReport', showSecretReport);
+  const showSearchHistoryCommand = vscode.commands.registerCommand('ace-sidebar.showSearchHistory', showSearchHistory);
+  const rerunSearchCommand = vscode.commands.registerCommand('ace-sidebar.rerunSearch', rerunSearch);
+  const removeSearchHistoryCommand = vscode.commands.registerCommand('ace-sidebar.removeSearchHistoryEntry', removeSearchHistoryEntry);
+  const clearSearchHistoryCommand = vscode.commands.registerCommand('ace-sidebar.clearSearchHistory', clearSearchHistory);
+
+  context.subscriptions.push(
+    searchCommand,
+    chatCommand,
+    openSettingsCommand,
+    refreshCommand,
+    focusChatViewCommand,
+    reindexNodeCommand,
+    excludeNodeCommand,
+    rebuildIndexCommand,
+    clearIndexCommand,
+    verifyIndexCommand,
+    previewIndexCommand,
+    showSecretReportCommand,
+    showSearchHistoryCommand,
+    rerunSearchCommand,
+    removeSearchHistoryCommand,
+    clearSearchHistoryCommand
+  );
 
   // Config change listener
   const configChange = vscode.workspace.onDidChangeConfiguration((event) => {
@@ -361,43 +910,61 @@ export function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(configChange);
 
-  // File save listener for incremental indexing (with debounce and deduplication)
-  const fileSave = vscode.workspace.onDidSaveTextDocument(async (document) => {
+  // 索引任务队列：保存、文件监听和自动索引共享，任务串行执行，运行期间的变更排队后补同步
+  indexQueue = new IndexJobQueue(createIndexManager, (update) => {
+    chatService?.reportIndexProgress(update);
+    chatViewProvider?.reportIndexProgress(update);
+  });
+  chatService?.setIndexQueue(indexQueue);
+  sidebarProvider.setIndexQueue(indexQueue);
+  context.subscriptions.push(indexQueue);
+  // 搜索和增强时发现索引为空，也通过队列建立索引
+  const queue = indexQueue;
+  setIndexScheduler((projectRoot) => queue.enqueueFullIndex(projectRoot));
+
+  // File save listener for incremental indexing
+  const fileSave = vscode.workspace.onDidSaveTextDocument((document) => {
     if (document.uri.scheme !== 'file') {
       return;
     }
-    const latestConfig = loadConfig(false);
-    // 【修复】文件保存时不重复更新配置状态，避免触发 ChatView 重新渲染
-    // updateConfigState 只应在配置真正改变时调用（如启动时、配置变更时）
-    if (!latestConfig) {
-      return;
-    }
+    indexQueue?.enqueueFiles([document.uri.fsPath]);
+  });
+  context.subscriptions.push(fileSave);
 
-    // 【修复问题1】移除 ensureServices 调用
-    // 文件保存时不应该重新配置服务，服务已经在插件启动和配置变更时正确初始化
-    // 频繁调用 ensureServices 会：
-    // 1. 重置 chatService.hasAutoIndexed 标志
-    // 2. 重复设置 chatViewProvider 的进度报告器
-    // 3. 可能触发 MCP Server 的不必要重启
-    // 这些操作会干扰正常的文件索引流程，导致不必要的状态重置
-    
-    const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!projectRoot) {
-      return;
+  // File system watcher: 同步编辑器外部的新增、修改、删除和重命名
+  fileWatcher = new IndexFileWatcher((paths, fullSync) => {
+    if (fullSync) {
+      const projectRoots = new Set(paths.map((filePath) => getWorkspaceFolderRoot(filePath)));
+      for (const projectRoot of projectRoots) {
+        // 尚未建立索引时不由文件变更触发首次索引，留给用户操作或搜索时确认
+        if (projectRoot && createIndexManager(projectRoot)?.getBlobNames().length) {
+          void indexQueue?.enqueueFullIndex(projectRoot);
+        }
+      }
+    } else {
+      indexQueue?.enqueueFiles(paths);
     }
-
-    // 使用防抖机制触发索引
-    await indexFileWithDebounce(document.uri.fsPath, latestConfig);
   });
-  context.subscriptions.push(fileSave);
+  context.subscriptions.push(fileWatcher);
+
+  return api;
 }
 
 export async function deactivate() {
-  // 清理所有防抖定时器
-  indexDebounceTimers.forEach((timer) => {
-    clearTimeout(timer);
-  });
-  indexDebounceTimers.clear();
+  if (fileWatcher) {
+    fileWatcher.dispose();
+    fileWatcher = null;
+  }
+
+  if (indexQueue) {
+    indexQueue.dispose();
+    indexQueue = null;
+  }
+
+  setFirstIndexGuard(null);
+  setIndexScheduler(null);
+  reportProvider = null;
+  searchHistory = null;
 
   // 停止 MCP Server
   if (mcpServer) {
@@ -0,0 +1,149 @@
+/**
+ * 检索后端 - 上传切片、代码检索和提示词增强的统一接口
+ * 内置 remote（HTTP 服务端）和 local（离线词法索引）两种实现，可通过 registerRetrievalBackend 接入其他实现
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import * as vscode from 'vscode';
+import { EditorContext } from './manager';
+
+/**
+ * 上传给后端的文件切片
+ */
+export interface BackendBlob {
+  // 相对路径，切片为 `${path}#chunk${i}of${n}`
+  path: string;
+  content: string;
+  // 切片在源文件中的起始行（从 1 开始）
+  startLine: number;
+}
+
+/**
+ * 对话中的一轮问答，让后端理解追问中的指代（例如“它在哪里被调用”）
+ */
+export interface DialogExchange {
+  request: string;
+  response: string;
+}
+
+/**
+ * 检索请求：当前索引中的 blob 以及上次同步后删除的 blob
+ */
+export interface RetrievalRequest {
+  query: string;
+  blobNames: string[];
+  deletedBlobNames: string[];
+  // 最近的对话，从旧到新
+  dialog?: DialogExchange[];
+  // 为 true 时 blobNames 中包含最近提交的说明和 diff（路径为 `.git-history/<hash>`）
+  includeCommits?: boolean;
+}
+
+export interface EnhanceRequest extends RetrievalRequest {
+  editorContext: EditorContext | null;
+  userGuidelines: string;
+}
+
+export interface RetrievalBackend {
+  readonly id: string;
+  /**
+   * 上传一批切片，返回后端计算的 blob 名称（应与 calculateBlobName 一致）
+   */
+  uploadBlobs(blobs: BackendBlob[], token?: vscode.CancellationToken): Promise<string[]>;
+  /**
+   * 检索与查询相关的代码片段，返回格式化文本，无结果时返回空字符串
+   */
+  retrieve(request: RetrievalRequest, token?: vscode.CancellationToken): Promise<string>;
+  /**
+   * 提示词增强，不支持的后端不实现
+   */
+  enhancePrompt?(request: EnhanceRequest, token?: vscode.CancellationToken): Promise<string>;
+  /**
+   * 丢弃 liveBlobNames 以外的切片，在索引保存后调用；不在本地保存切片的后端不实现
+   */
+  compact?(liveBlobNames: Set<string>): void;
+}
+
+export interface RetrievalBackendOptions {
+  projectRoot: string;
+  baseUrl: string;
+  token: string;
+}
+
+export type RetrievalBackendFactory = (options: RetrievalBackendOptions) => RetrievalBackend;
+
+const backendFactories = new Map<string, RetrievalBackendFactory>();
+
+/**
+ * 注册检索后端，配置项 ace-sidebar.backend 填写对应的 id 即可使用
+ */
+export function registerRetrievalBackend(id: string, factory: RetrievalBackendFactory): vscode.Disposable {
+  backendFactories.set(id, factory);
+  return new vscode.Disposable(() => {
+    if (backendFactories.get(id) === factory) {
+      backendFactories.delete(id);
+    }
+  });
+}
+
+export function createRetrievalBackend(id: string, options: RetrievalBackendOptions): RetrievalBackend {
+  const factory = backendFactories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown retrieval backend "${id}"`);
+  }
+  return factory(options);
+}
+
+/**
+ * 后端暂时不可用（无法连接、超时或服务端 5xx），重试后仍失败时抛出
+ */
+export class BackendUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendUnavailableError';
+  }
+}
+
+/**
+ * 计算 blob 名称（SHA-256 哈希）
+ */
+export function calculateBlobName(filePath: string, content: string): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(filePath, 'utf-8');
+  hash.update(content, 'utf-8');
+  return hash.digest('hex');
+}
+
+/**
+ * 睡眠工具函数，取消时提前结束
+ */
+export function sleep(ms: number, token?: vscode.CancellationToken): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      listener?.dispose();
+      resolve();
+    }, ms);
+    const listener = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      listener?.dispose();
+      resolve();
+    });
+  });
+}
+
+/**
+ * 已请求取消时抛出 CancellationError
+ */
+export function throwIfCancelled(token?: vscode.CancellationToken): void {
+  if (token?.isCancellationRequested) {
+    throw new vscode.CancellationError();
+  }
+}
+
+/**
+ * 判断错误是否由取消引起
+ */
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof vscode.CancellationError || axios.isCancel(error);
+}
@@ -0,0 +1,309 @@
+/**
+ * 语法感知切片 - 按顶层声明（函数、类、方法）切分文件内容
+ * 不支持的语言或无法按声明切分的片段回退为固定行数切分
+ */
+
+import path from 'path';
+
+/**
+ * 切片结果（行号从 1 开始，包含 endLine）
+ */
+export interface ContentChunk {
+  content: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * 语言切分规则
+ */
+interface LanguageRule {
+  // 声明起始行
+  declaration: RegExp;
+  // 可以归属到下一个声明的前置行（注释、装饰器、注解）
+  leading: RegExp;
+}
+
+const C_STYLE_LEADING = /^\s*(\/\/|\/\*|\*|@)/;
+const HASH_LEADING = /^\s*(#|@)/;
+
+// 形似方法调用但不是声明的控制流关键字
+const CONTROL_KEYWORDS = /^\s*(if|for|foreach|while|switch|catch|return|else|do|try|using|lock|synchronized|when|match|new|throw|await|yield)\b/;
+
+const JS_RULE: LanguageRule = {
+  declaration: new RegExp(
+    '^\\s*(?:export\\s+(?:default\\s+)?)?(?:declare\\s+)?(?:' +
+      '(?:async\\s+)?function\\b|(?:abstract\\s+)?class\\b|interface\\b|enum\\b|namespace\\b|module\\b|type\\s+\\w+|' +
+      '(?:const|let|var)\\s+\\w+\\s*(?::[^=]+)?=\\s*(?:async\\s*)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|\\w+\\s*=>)|' +
+      '(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set)\\s+)*[\\w$#]+\\s*(?:<[^>]*>)?\\([^;]*$' +
+    ')'
+  ),
+  leading: C_STYLE_LEADING
+};
+
+const CPP_RULE: LanguageRule = {
+  declaration: /^\s*(?:class|struct|union|enum|namespace|template\b)|^[A-Za-z_][\w\s*&:<>,]*[\s*&]\**[A-Za-z_][\w:~]*\s*\([^;]*$/,
+  leading: /^\s*(\/\/|\/\*|\*|template\b)/
+};
+
+const SHELL_RULE: LanguageRule = {
+  declaration: /^\s*(?:function\s+\w+|\w+\s*\(\)\s*\{?)/,
+  leading: /^\s*#/
+};
+
+const RULES = new Map<string, LanguageRule>([
+  ['.py', {
+    declaration: /^\s*(?:async\s+def|def|class)\s+\w/,
+    leading: HASH_LEADING
+  }],
+  ['.js', JS_RULE],
+  ['.jsx', JS_RULE],
+  ['.ts', JS_RULE],
+  ['.tsx', JS_RULE],
+  ['.vue', JS_RULE],
+  ['.svelte', JS_RULE],
+  ['.java', {
+    declaration: /^\s*(?:(?:public|private|protected|static|final|abstract|synchronized|native|default|sealed)\s+)*(?:class|interface|enum|record|@interface)\s+\w|^\s*(?:(?:public|private|protected|static|final|abstract|synchronized|native|default)\s+)+[\w<>[\],\s?]+\s+\w+\s*\([^;]*$/,
+    leading: C_STYLE_LEADING
+  }],
+  ['.cs', {
+    declaration: /^\s*(?:\[[^\]]*\]\s*)?(?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly|virtual|override|async|unsafe|extern|new)\s+)*(?:class|interface|enum|struct|record|namespace)\s+\w|^\s*(?:(?:public|private|protected|internal|static|virtual|override|abstract|async|extern|new|unsafe)\s+)+[\w<>[\],.?\s]+\s+\w+\s*(?:<[^>]*>)?\s*\([^;]*$/,
+    leading: /^\s*(\/\/|\/\*|\*|\[)/
+  }],
+  ['.go', {
+    declaration: /^(?:func\b|type\s+\w+\s+(?:struct|interface)\b)/,
+    leading: /^\s*\/\//
+  }],
+  ['.rs', {
+    declaration: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:(?:async|const|unsafe|extern(?:\s+"[^"]*")?)\s+)*(?:fn|struct|enum|trait|impl|mod|union|macro_rules!)\b/,
+    leading: /^\s*(\/\/|#\[|#!\[)/
+  }],
+  ['.c', {
+    declaration: /^(?:struct|union|enum|typedef)\b|^[A-Za-z_][\w\s*&]*[\s*&]\**[A-Za-z_]\w*\s*\([^;]*$/,
+    leading: /^\s*(\/\/|\/\*|\*)/
+  }],
+  ['.h', {
+    declaration: /^(?:struct|union|enum|typedef|class|namespace|template\b)|^[A-Za-z_][\w\s*&:<>,]*[\s*&]\**[A-Za-z_][\w:~]*\s*\([^;]*$/,
+    leading: /^\s*(\/\/|\/\*|\*|template\b)/
+  }],
+  ['.cpp', CPP_RULE],
+  ['.hpp', CPP_RULE],
+  ['.rb', {
+    declaration: /^\s*(?:def|class|module)\s+\S/,
+    leading: /^\s*#/
+  }],
+  ['.php', {
+    declaration: /^\s*(?:(?:abstract|final|public|private|protected|static|readonly)\s+)*(?:function|class|interface|trait|enum)\s+&?\w/,
+    leading: /^\s*(\/\/|\/\*|\*|#\[)/
+  }],
+  ['.kt', {
+    declaration: /^\s*(?:(?:public|private|protected|internal|open|abstract|sealed|data|inline|suspend|override|enum|annotation|companion|operator|infix|tailrec)\s+)*(?:class|interface|object|fun)\b/,
+    leading: C_STYLE_LEADING
+  }],
+  ['.scala', {
+    declaration: /^\s*(?:(?:private|protected|final|sealed|abstract|implicit|override|lazy|case)\s+)*(?:class|trait|object|def)\s+\w/,
+    leading: C_STYLE_LEADING
+  }],
+  ['.swift', {
+    declaration: /^\s*(?:(?:public|private|fileprivate|internal|open|final|static|class|override|mutating|@\w+)\s+)*(?:func|class|struct|enum|protocol|extension|init)\b/,
+    leading: C_STYLE_LEADING
+  }],
+  ['.clj', {
+    declaration: /^\((?:def|defn|defn-|defmacro|defprotocol|defrecord|deftype|defmulti|defmethod|ns)\b/,
+    leading: /^\s*;/
+  }],
+  ['.sh', SHELL_RULE],
+  ['.bash', SHELL_RULE],
+  ['.md', {
+    declaration: /^#{1,3}\s/,
+    leading: /^<!--/
+  }]
+]);
+
+interface Boundary {
+  line: number;
+  indent: number;
+}
+
+/**
+ * 按换行符切分为行（保留原始换行符，兼容 \n、\r\n 和 \r）
+ */
+export function splitLines(content: string): string[] {
+  const lines: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lines.push(content.substring(start, i + 1));
+      start = i + 1;
+    } else if (content[i] === '\r') {
+      if (i + 1 < content.length && content[i + 1] === '\n') {
+        lines.push(content.substring(start, i + 2));
+        start = i + 2;
+        i++;
+      } else {
+        lines.push(content.substring(start, i + 1));
+        start = i + 1;
+      }
+    }
+  }
+
+  if (start < content.length) {
+    lines.push(content.substring(start));
+  }
+
+  return lines;
+}
+
+function measureIndent(line: string): number {
+  let indent = 0;
+  for (const ch of line) {
+    if (ch === ' ') {
+      indent++;
+    } else if (ch === '\t') {
+      indent += 4;
+    } else {
+      break;
+    }
+  }
+  return indent;
+}
+
+/**
+ * 查找所有声明边界，边界会向上包含紧邻的注释和装饰器
+ */
+function findBoundaries(lines: string[], rule: LanguageRule): Boundary[] {
+  const boundaries: Boundary[] = [];
+  let inBlockComment = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].replace(/[\r\n]+$/, '');
+
+    // 跳过块注释内部，避免把注释里的代码示例当作声明
+    if (inBlockComment) {
+      if (text.includes('*/')) {
+        inBlockComment = false;
+      }
+      continue;
+    }
+    if (/^\s*\/\*/.test(text) && !text.includes('*/')) {
+      inBlockComment = true;
+      continue;
+    }
+
+    if (!rule.declaration.test(text) || CONTROL_KEYWORDS.test(text)) {
+      continue;
+    }
+
+    let start = i;
+    while (start > 0) {
+      const previous = lines[start - 1].replace(/[\r\n]+$/, '');
+      if (!previous.trim() || !rule.leading.test(previous)) {
+        break;
+      }
+      start--;
+    }
+
+    // 避免与上一个边界重叠（例如连续的单行声明）
+    const last = boundaries[boundaries.length - 1];
+    if (last && start <= last.line) {
+      start = i;
+    }
+
+    boundaries.push({ line: start, indent: measureIndent(text) });
+  }
+
+  return boundaries;
+}
+
+/**
+ * 固定行数切分（回退策略）
+ */
+function splitByLineCount(start: number, end: number, maxLines: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (let lineStart = start; lineStart < end; lineStart += maxLines) {
+    ranges.push([lineStart, Math.min(lineStart + maxLines, end)]);
+  }
+  return ranges;
+}
+
+/**
+ * 递归切分 [start, end) 区间：优先在缩进最浅的声明处切分，
+ * 相邻的小片段合并到不超过 maxLines，超长片段再按更深一层的声明切分
+ */
+function splitRange(
+  start: number,
+  end: number,
+  maxLines: number,
+  boundaries: Boundary[]
+): Array<[number, number]> {
+  if (end - start <= maxLines) {
+    return [[start, end]];
+  }
+
+  const inner = boundaries.filter((b) => b.line > start && b.line < end);
+  if (inner.length === 0) {
+    return splitByLineCount(start, end, maxLines);
+  }
+
+  const minIndent = Math.min(...inner.map((b) => b.indent));
+  const cuts = inner.filter((b) => b.indent === minIndent).map((b) => b.line);
+  const segments: Array<[number, number]> = [];
+  let segmentStart = start;
+  for (const cut of cuts) {
+    segments.push([segmentStart, cut]);
+    segmentStart = cut;
+  }
+  segments.push([segmentStart, end]);
+
+  const ranges: Array<[number, number]> = [];
+  let current: [number, number] | null = null;
+
+  for (const segment of segments) {
+    const length = segment[1] - segment[0];
+    if (length > maxLines) {
+      if (current) {
+        ranges.push(current);
+        current = null;
+      }
+      ranges.push(...splitRange(segment[0], segment[1], maxLines, boundaries));
+    } else if (current && segment[1] - current[0] <= maxLines) {
+      current = [current[0], segment[1]];
+    } else {
+      if (current) {
+        ranges.push(current);
+      }
+      current = [segment[0], segment[1]];
+    }
+  }
+
+  if (current) {
+    ranges.push(current);
+  }
+
+  return ranges;
+}
+
+/**
+ * 将文件内容切分为不超过 maxLines 行的片段
+ * 相同输入总是产生相同输出，保证基于哈希的增量索引稳定
+ */
+export function chunkContent(filePath: string, content: string, maxLines: number): ContentChunk[] {
+  const lines = splitLines(content);
+  const limit = Math.max(1, Math.floor(maxLines));
+
+  if (lines.length <= limit) {
+    return [{ content, startLine: 1, endLine: Math.max(1, lines.length) }];
+  }
+
+  const rule = RULES.get(path.extname(filePath).toLowerCase());
+  const ranges = rule
+    ? splitRange(0, lines.length, limit, findBoundaries(lines, rule))
+    : splitByLineCount(0, lines.length, limit);
+
+  return ranges.map(([start, end]) => ({
+    content: lines.slice(start, end).join(''),
+    startLine: start + 1,
+    endLine: end
+  }));
+}
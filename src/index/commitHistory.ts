@@ -0,0 +1,194 @@
+/**
+ * 提交历史检索 - 通过本地 git 读取最近 N 个提交的说明和 diff，以虚拟路径 `.git-history/<hash>` 上传
+ * 已上传的提交记录在 .ace-sidebar/commit-history.json 中，HEAD 未变化时不重新读取
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getAceDir } from '../utils/projectDetector';
+import { withFileLock, writeFileAtomic } from '../utils/fileLock';
+import { sendLog } from '../utils/VSCodeAdapter';
+
+export const COMMIT_PATH_PREFIX = '.git-history/';
+
+const STORE_FILE_NAME = 'commit-history.json';
+const COMMIT_HISTORY_VERSION = 1;
+// 单个提交上传的 diff 最大字符数，超出部分截断
+const MAX_COMMIT_DIFF_LENGTH = 20000;
+// 每次 git show 读取的提交数
+const SHOW_BATCH_SIZE = 50;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+export interface CommitRetrievalOptions {
+  enabled: boolean;
+  // 检索最近多少个提交
+  depth: number;
+}
+
+export const DEFAULT_COMMIT_RETRIEVAL: CommitRetrievalOptions = { enabled: false, depth: 100 };
+
+export interface CommitRecord {
+  hash: string;
+  author: string;
+  date: string;
+  message: string;
+  diff: string;
+}
+
+export interface CommitFileChange {
+  // git 状态字母：A 新增、M 修改、D 删除、R 重命名
+  status: string;
+  path: string;
+  // 重命名前的路径
+  originalPath?: string;
+}
+
+export interface CommitHistoryEntry {
+  hash: string;
+  subject: string;
+  blobNames: string[];
+}
+
+export interface CommitHistoryStore {
+  version: number;
+  backend: string;
+  // 已全部上传时的 HEAD，为空表示需要重新同步
+  head?: string;
+  depth: number;
+  // 从新到旧
+  commits: CommitHistoryEntry[];
+  // 移出深度范围的提交切片，检索时作为已删除的 blob 发送
+  deletedBlobs?: string[];
+}
+
+function runGit(projectRoot: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd: projectRoot, maxBuffer: GIT_MAX_BUFFER, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+export function commitPath(hash: string): string {
+  return `${COMMIT_PATH_PREFIX}${hash}`;
+}
+
+/**
+ * 从检索结果路径中取出提交哈希，不是提交时返回 undefined
+ */
+export function parseCommitPath(filePath: string): string | undefined {
+  const match = /^\.git-history\/([0-9a-f]{7,40})(?:#chunk\d+of\d+)?$/.exec(filePath);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * 当前 HEAD，不是 git 仓库或未安装 git 时返回 undefined
+ */
+export async function readHeadCommit(projectRoot: string): Promise<string | undefined> {
+  try {
+    return (await runGit(projectRoot, ['rev-parse', 'HEAD'])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function listRecentCommits(projectRoot: string, depth: number): Promise<string[]> {
+  const output = await runGit(projectRoot, ['log', `--max-count=${depth}`, '--no-merges', '--format=%H']);
+  return output.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+/**
+ * 读取提交的作者、时间、完整说明和 diff
+ */
+export async function readCommits(projectRoot: string, hashes: string[]): Promise<CommitRecord[]> {
+  const commits: CommitRecord[] = [];
+  for (let i = 0; i < hashes.length; i += SHOW_BATCH_SIZE) {
+    const output = await runGit(projectRoot, [
+      'show',
+      '--no-color',
+      '--patch',
+      '--unified=2',
+      `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an <%ae>${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B${FIELD_SEPARATOR}`,
+      ...hashes.slice(i, i + SHOW_BATCH_SIZE)
+    ]);
+    for (const record of output.split(RECORD_SEPARATOR).slice(1)) {
+      const [hash, author, date, message, ...rest] = record.split(FIELD_SEPARATOR);
+      commits.push({ hash, author, date, message: message.trim(), diff: rest.join(FIELD_SEPARATOR).trim() });
+    }
+  }
+  return commits;
+}
+
+/**
+ * 提交中变更的文件
+ */
+export async function readCommitFiles(projectRoot: string, hash: string): Promise<CommitFileChange[]> {
+  const output = await runGit(projectRoot, ['show', '--no-color', '--name-status', '--format=', hash]);
+  return output.split('\n').filter(Boolean).map((line) => {
+    const [status, first, second] = line.split('\t');
+    return second
+      ? { status: status[0], path: second, originalPath: first }
+      : { status: status[0], path: first };
+  });
+}
+
+/**
+ * 上传给后端的提交文本，格式与 `git show` 相同，过长的 diff 被截断
+ */
+export function formatCommitDocument(commit: CommitRecord): string {
+  const diff = commit.diff.length > MAX_COMMIT_DIFF_LENGTH
+    ? `${commit.diff.slice(0, MAX_COMMIT_DIFF_LENGTH)}\n... (diff truncated)`
+    : commit.diff;
+  const message = commit.message.split('\n').map((line) => (line ? `    ${line}` : '')).join('\n');
+  return `commit ${commit.hash}\nAuthor: ${commit.author}\nDate:   ${commit.date}\n\n${message}\n\n${diff}\n`;
+}
+
+/**
+ * 已上传提交的记录
+ */
+export class CommitHistoryStorage {
+  private filePath: string;
+
+  constructor(projectRoot: string) {
+    this.filePath = path.join(getAceDir(projectRoot), STORE_FILE_NAME);
+  }
+
+  public read(): CommitHistoryStore | null {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return null;
+      }
+      const store = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CommitHistoryStore;
+      return store.version === COMMIT_HISTORY_VERSION ? store : null;
+    } catch (error) {
+      sendLog('warning', `Failed to read commit history index: ${error}`);
+      return null;
+    }
+  }
+
+  public write(store: Omit<CommitHistoryStore, 'version'>): Promise<void> {
+    return withFileLock(this.filePath, () => {
+      writeFileAtomic(this.filePath, JSON.stringify({ version: COMMIT_HISTORY_VERSION, ...store }, null, 2));
+    });
+  }
+
+  public async clear(): Promise<void> {
+    // 关闭提交历史检索时每次搜索都会调用，没有记录时无需加锁
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    await withFileLock(this.filePath, () => {
+      if (fs.existsSync(this.filePath)) {
+        fs.unlinkSync(this.filePath);
+      }
+    });
+  }
+}
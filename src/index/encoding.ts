@@ -0,0 +1,186 @@
+/**
+ * 编码检测 - BOM 识别、无 BOM 的 UTF-16 推断，以及按通配符指定编码
+ * 自动检测时依次尝试 UTF-8 和上次记录的编码，失败后在常见的中日韩编码中择优
+ */
+
+import iconv from 'iconv-lite';
+import ignore from 'ignore';
+import { sendLog } from '../utils/VSCodeAdapter';
+
+export interface DecodedContent {
+  content: string;
+  encoding: string;
+}
+
+type IgnoreInstance = ReturnType<typeof ignore>;
+
+// 自动检测的候选编码，latin1 能解码任意字节，放在最后
+const FALLBACK_ENCODINGS = ['gbk', 'big5', 'shift_jis', 'euc-kr', 'latin1'];
+// 推断无 BOM 的 UTF-16 时检查的字节数
+const UTF16_SNIFF_BYTES = 4096;
+// 几乎任意偶数长度的内容都能被 UTF-16 无错误地解码，只在有 BOM 或推断成功时使用
+const UTF16_ENCODING = /^(?:utf-?16|ucs-?2)/i;
+
+/**
+ * 识别 BOM，返回对应编码和 BOM 长度
+ */
+export function detectBom(buffer: Buffer): { encoding: string; length: number } | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: 'utf-8', length: 3 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { encoding: 'utf-16le', length: 2 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { encoding: 'utf-16be', length: 2 };
+  }
+  return null;
+}
+
+/**
+ * 推断无 BOM 的 UTF-16：以 ASCII 为主的文本每两个字节中有一个是 NUL
+ */
+export function guessUtf16(buffer: Buffer): string | null {
+  const length = Math.min(buffer.length, UTF16_SNIFF_BYTES) & ~1;
+  if (length < 4) {
+    return null;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (buffer[i] === 0) {
+      evenZeros++;
+    }
+    if (buffer[i + 1] === 0) {
+      oddZeros++;
+    }
+  }
+
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) {
+    return 'utf-16le';
+  }
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+/**
+ * 解码质量评分，越低越好：替换字符权重最高，C1 控制字符、私用区字符和半角片假名通常意味着编码选错
+ */
+function scoreDecoded(content: string): number {
+  let score = 0;
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    if (code === 0xfffd) {
+      score += 10;
+    } else if (
+      (code >= 0x80 && code <= 0x9f) ||
+      (code >= 0xe000 && code <= 0xf8ff) ||
+      (code >= 0xff61 && code <= 0xff9f)
+    ) {
+      score += 1;
+    }
+  }
+  return score;
+}
+
+/**
+ * 日文和韩文编码的字节序列大多也能被 GBK 无错误地解码，评分相同时按文字特征判断：
+ * 日文文本包含较多假名，韩文文本几乎全是谚文
+ */
+function matchesScript(encoding: string, content: string): boolean {
+  let nonAscii = 0;
+  let kana = 0;
+  let hangul = 0;
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    if (code < 0x80) {
+      continue;
+    }
+    nonAscii++;
+    if (code >= 0x3040 && code <= 0x30ff) {
+      kana++;
+    } else if (code >= 0xac00 && code <= 0xd7a3) {
+      hangul++;
+    }
+  }
+  if (nonAscii === 0) {
+    return false;
+  }
+  if (encoding === 'shift_jis') {
+    return kana / nonAscii >= 0.1;
+  }
+  if (encoding === 'euc-kr') {
+    return hangul / nonAscii >= 0.9;
+  }
+  return false;
+}
+
+/**
+ * 解码文件内容
+ * @param override 通配符指定的编码，存在时直接使用（BOM 优先）
+ * @param previous 上次索引时记录的编码，UTF-8 解码失败且该编码能无损解码时沿用，保证多次同步结果一致
+ */
+export function decodeBuffer(buffer: Buffer, override?: string, previous?: string): DecodedContent {
+  const bom = detectBom(buffer);
+  if (bom) {
+    return { content: iconv.decode(buffer.subarray(bom.length), bom.encoding), encoding: bom.encoding };
+  }
+
+  if (override) {
+    return { content: iconv.decode(buffer, override), encoding: override };
+  }
+
+  const utf16 = guessUtf16(buffer);
+  if (utf16) {
+    return { content: iconv.decode(buffer, utf16), encoding: utf16 };
+  }
+
+  const reusable = previous && !UTF16_ENCODING.test(previous) ? previous : undefined;
+  const candidates = [...new Set(['utf-8', reusable, ...FALLBACK_ENCODINGS])]
+    .filter((encoding): encoding is string => !!encoding && iconv.encodingExists(encoding));
+
+  let best: DecodedContent | null = null;
+  let bestScore = Infinity;
+  for (const encoding of candidates) {
+    const content = iconv.decode(buffer, encoding);
+    const score = scoreDecoded(content);
+    // UTF-8 或上次的编码能无损解码时直接采用
+    if (score === 0 && (encoding === 'utf-8' || encoding === reusable)) {
+      return { content, encoding };
+    }
+    if (score < bestScore || (score === bestScore && matchesScript(encoding, content))) {
+      best = { content, encoding };
+      bestScore = score;
+    }
+  }
+
+  return best || { content: iconv.decode(buffer, 'utf-8'), encoding: 'utf-8' };
+}
+
+/**
+ * 按通配符（gitignore 语法，相对项目根目录）指定文件编码，先声明的规则优先
+ */
+export class EncodingOverrides {
+  private rules: Array<{ matcher: IgnoreInstance; encoding: string }> = [];
+
+  constructor(overrides: Record<string, string>) {
+    for (const [pattern, encoding] of Object.entries(overrides)) {
+      if (!iconv.encodingExists(encoding)) {
+        sendLog('warning', `Unknown encoding "${encoding}" for pattern "${pattern}", ignored`);
+        continue;
+      }
+      this.rules.push({ matcher: ignore().add(pattern), encoding });
+    }
+  }
+
+  /**
+   * @param relativePath 正斜杠分隔的相对路径
+   */
+  public match(relativePath: string): string | undefined {
+    return this.rules.find((rule) => rule.matcher.ignores(relativePath))?.encoding;
+  }
+}
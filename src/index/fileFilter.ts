@@ -0,0 +1,123 @@
+/**
+ * 文件过滤 - 上传前跳过过大、二进制、压缩（minified）和自动生成的文件
+ * 被跳过的文件连同原因记录到索引结果中（包含密钥而被跳过的文件见 secretScanner.ts）
+ */
+
+import path from 'path';
+import { detectBom, guessUtf16 } from './encoding';
+
+export type SkipReason = 'too_large' | 'binary' | 'minified' | 'generated' | 'secret';
+
+export interface SkippedFile {
+  path: string;
+  reason: SkipReason;
+  detail: string;
+}
+
+export interface FileLimits {
+  // 单个文件的最大大小（KB），0 表示不限制
+  maxFileSizeKB: number;
+  // 单行最大长度，超过视为压缩代码，0 表示不检测（不检测文档类文件）
+  maxLineLength: number;
+}
+
+export const DEFAULT_FILE_LIMITS: FileLimits = {
+  maxFileSizeKB: 512,
+  maxLineLength: 1000
+};
+
+// 只与内容有关、与配置无关的原因，文件未变化时可以沿用上次的判断
+export const CONTENT_SKIP_REASONS: ReadonlySet<SkipReason> = new Set<SkipReason>(['binary', 'generated']);
+
+// 二进制检测读取的字节数（与 git 一致）
+const BINARY_SNIFF_BYTES = 8000;
+// 生成标记只在文件开头的几行中查找
+const GENERATED_HEADER_LINES = 5;
+// 平均行长超过该值视为压缩代码
+const MINIFIED_AVERAGE_LINE_LENGTH = 300;
+const MINIFIED_MIN_CONTENT_LENGTH = 2048;
+// 文档类文件的段落常写成一整行，不做压缩代码检测
+const PROSE_EXTENSIONS = new Set(['.md', '.txt']);
+
+// 依赖锁文件由包管理器生成，没有检索价值
+const LOCK_FILE_NAMES = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'composer.lock',
+  'Gemfile.lock',
+  'Cargo.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum'
+]);
+
+const GENERATED_MARKERS = [
+  /@generated\b/,
+  /^\s*(\/\/|#|\/\*|\*|<!--)\s*Code generated .* DO NOT EDIT\.?/i,
+  /^\s*(\/\/|#|\/\*|\*|<!--)\s*(This file is )?auto-?generated\b/i
+];
+
+/**
+ * 按文件大小判断是否跳过（读取内容之前）
+ */
+export function checkFileSize(size: number, limits: FileLimits): string | null {
+  if (limits.maxFileSizeKB > 0 && size > limits.maxFileSizeKB * 1024) {
+    return `${Math.ceil(size / 1024)} KB exceeds the ${limits.maxFileSizeKB} KB limit`;
+  }
+  return null;
+}
+
+/**
+ * 检测二进制内容：开头包含 NUL 字节（UTF-16 文本除外）
+ */
+export function isBinaryContent(buffer: Buffer): boolean {
+  if (detectBom(buffer) || guessUtf16(buffer)) {
+    return false;
+  }
+  return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * 根据文件名和解码后的内容判断是否为压缩或自动生成的文件
+ */
+export function detectGeneratedContent(
+  filePath: string,
+  content: string,
+  limits: FileLimits
+): { reason: SkipReason; detail: string } | null {
+  const fileName = path.basename(filePath);
+  if (LOCK_FILE_NAMES.has(fileName)) {
+    return { reason: 'generated', detail: 'dependency lock file' };
+  }
+  if (/\.min\.(js|css|mjs)$/i.test(fileName)) {
+    return { reason: 'minified', detail: 'minified file name' };
+  }
+
+  const lines = content.split(/\r?\n|\r/);
+  const header = lines.slice(0, GENERATED_HEADER_LINES);
+  if (header.some((line) => GENERATED_MARKERS.some((marker) => marker.test(line)))) {
+    return { reason: 'generated', detail: 'generated file marker' };
+  }
+
+  if (PROSE_EXTENSIONS.has(path.extname(fileName).toLowerCase())) {
+    return null;
+  }
+
+  if (limits.maxLineLength > 0) {
+    const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+    if (longest > limits.maxLineLength) {
+      return { reason: 'minified', detail: `line of ${longest} characters exceeds ${limits.maxLineLength}` };
+    }
+  }
+
+  if (content.length >= MINIFIED_MIN_CONTENT_LENGTH) {
+    const averageLength = Math.round(content.length / lines.length);
+    if (averageLength > MINIFIED_AVERAGE_LINE_LENGTH) {
+      return { reason: 'minified', detail: `average line length ${averageLength}` };
+    }
+  }
+
+  return null;
+}
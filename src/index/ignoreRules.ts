@@ -0,0 +1,151 @@
+/**
+ * 忽略规则 - 按目录层级加载 .gitignore 和 .aceignore
+ * 每个文件只作用于所在目录及其子目录，深层规则可覆盖（包括 ! 取反）浅层规则
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+
+type IgnoreInstance = ReturnType<typeof ignore>;
+
+/**
+ * 参与匹配的忽略文件，.aceignore 在后，可覆盖同目录 .gitignore 的规则
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.aceignore'];
+
+export class IgnoreRules {
+  private projectRoot: string;
+  private layers = new Map<string, IgnoreInstance | null>();
+  private directoryDecisions = new Map<string, boolean>();
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * 判断相对路径（正斜杠分隔）是否被忽略，父目录被忽略时子路径同样被忽略
+   */
+  public ignores(relativePath: string, isDir: boolean): boolean {
+    const parts = relativePath.split('/').filter((part) => part.length > 0);
+    if (parts.length === 0) {
+      return false;
+    }
+
+    for (let i = 1; i < parts.length; i++) {
+      if (this.isDirectoryIgnored(parts.slice(0, i).join('/'))) {
+        return true;
+      }
+    }
+
+    return isDir
+      ? this.isDirectoryIgnored(parts.join('/'))
+      : this.matchLayers(parts, false);
+  }
+
+  private isDirectoryIgnored(dirPath: string): boolean {
+    const cached = this.directoryDecisions.get(dirPath);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const decision = this.matchLayers(dirPath.split('/'), true);
+    this.directoryDecisions.set(dirPath, decision);
+    return decision;
+  }
+
+  /**
+   * 从根目录到父目录逐层匹配，后匹配的层覆盖先匹配的层
+   */
+  private matchLayers(parts: string[], isDir: boolean): boolean {
+    let ignored = false;
+
+    for (let depth = 0; depth < parts.length; depth++) {
+      const layer = this.getLayer(parts.slice(0, depth).join('/'));
+      if (!layer) {
+        continue;
+      }
+
+      const testPath = parts.slice(depth).join('/') + (isDir ? '/' : '');
+      const result = layer.test(testPath);
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * 加载目录下的忽略文件（按目录缓存）
+   */
+  private getLayer(dirPath: string): IgnoreInstance | null {
+    if (this.layers.has(dirPath)) {
+      return this.layers.get(dirPath) || null;
+    }
+
+    let layer: IgnoreInstance | null = null;
+    for (const fileName of IGNORE_FILE_NAMES) {
+      const filePath = path.join(this.projectRoot, dirPath, fileName);
+      try {
+        if (!fs.existsSync(filePath)) {
+          continue;
+        }
+        const content = fs.readFileSync(filePath, 'utf-8');
+        layer = (layer || ignore()).add(content.split(/\r?\n/));
+      } catch {
+        // 静默处理读取失败
+      }
+    }
+
+    this.layers.set(dirPath, layer);
+    return layer;
+  }
+}
+
+function matchPattern(str: string, pattern: string): boolean {
+  const regexPattern = pattern.replace(/\*/g, '.*').replace(/\?/g, '.');
+  const regex = new RegExp(`^${regexPattern}$`);
+  return regex.test(str);
+}
+
+/**
+ * 判断相对路径（正斜杠分隔）是否被配置项 excludePatterns 排除：模式匹配路径中的任一段或整个路径
+ */
+export function matchesExcludePatterns(relativePath: string, patterns: string[]): boolean {
+  const pathParts = relativePath.split('/');
+  for (const pattern of patterns) {
+    for (const part of pathParts) {
+      if (matchPattern(part, pattern)) {
+        return true;
+      }
+    }
+    if (matchPattern(relativePath, pattern)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 将相对路径（正斜杠分隔）以锚定规则追加到项目根目录的 .aceignore
+ * @returns 写入的规则，规则已存在时返回 null
+ */
+export function addAceignoreRule(projectRoot: string, relativePath: string, isDirectory: boolean): string | null {
+  const escaped = relativePath.replace(/[\\*?[\]]/g, '\\$&').replace(/ $/, '\\ ');
+  const rule = `/${escaped}${isDirectory ? '/' : ''}`;
+  const filePath = path.join(projectRoot, '.aceignore');
+
+  let content = '';
+  if (fs.existsSync(filePath)) {
+    content = fs.readFileSync(filePath, 'utf-8');
+    if (content.split(/\r?\n/).includes(rule)) {
+      return null;
+    }
+  }
+
+  const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+  fs.writeFileSync(filePath, `${content}${separator}${rule}\n`, 'utf-8');
+  return rule;
+}
@@ -0,0 +1,516 @@
+/**
+ * 索引存储 - .ace-sidebar/index.jsonl，每行一条记录的追加日志
+ * 每次保存只追加变化的文件记录和一条提交标记，加载一次后缓存在内存中，
+ * 其他窗口或进程追加的记录按偏移量增量读取；无效记录过多时压缩重写
+ *
+ * 记录格式：
+ *   {"header":{"version":3,"backend":"remote"}}      文件头
+ *   {"path":"a.ts","blobs":[...],"stat":{...}}      文件的最新状态，只有 path 表示从索引中移除
+ *   {"deleted_blobs":[...]}                         压缩时写入的已删除 blob
+ *   {"commit":1700000000000}                        提交标记，之前未提交的记录视为写入中断而忽略
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { sendLog } from '../utils/VSCodeAdapter';
+import { withFileLock, writeFileAtomic } from '../utils/fileLock';
+import { getIndexFilePath } from '../utils/projectDetector';
+import { SkipReason } from './fileFilter';
+import { SecretFinding } from './secretScanner';
+
+/**
+ * 文件元数据，用于判断文件自上次索引后是否变化
+ */
+export interface FileStat {
+  mtime: number;
+  size: number;
+  // 上次读取时使用的编码，再次读取时优先沿用
+  encoding?: string;
+  // 上传前被替换或导致文件被跳过的密钥
+  secrets?: SecretFinding[];
+  // 文件被切分为多个切片时，每个切片在文件中的起始行号
+  chunkLines?: number[];
+}
+
+/**
+ * 被跳过的文件及跳过时的元数据
+ */
+export interface SkippedFileEntry extends FileStat {
+  reason: SkipReason;
+  detail: string;
+}
+
+export interface IndexStore {
+  version: number;
+  blob_names: string[];
+  file_map: Record<string, string[]>;
+  // v2：mtime 与 size 均未变化的文件跳过读取和哈希
+  file_stats: Record<string, FileStat>;
+  // 上次索引后不再存在的 blob，检索时告知服务端
+  deleted_blobs: string[];
+  // 因大小或内容被跳过的文件
+  skipped_files: Record<string, SkippedFileEntry>;
+  // 最近一次同步中上传失败的文件及失败时间
+  failed_files: Record<string, number>;
+  // 最近一次保存索引的时间
+  synced_at?: number;
+  // 索引所属的检索后端，缺省为 remote；切换后端后需要重新上传
+  backend?: string;
+}
+
+// v3：追加日志格式
+export const INDEX_STORE_VERSION = 3;
+
+// deleted_blobs 最多保留的条数，超出后丢弃最早的记录
+export const MAX_DELETED_BLOBS = 5000;
+
+// v1/v2 使用的单个 JSON 文件，首次保存时迁移为日志
+const LEGACY_INDEX_FILE_NAME = 'index.json';
+
+// 日志行数超过存活文件数的该倍数（且不少于最小行数）时压缩
+const COMPACT_RATIO = 2;
+const COMPACT_MIN_LINES = 1000;
+
+interface FileRecord {
+  path: string;
+  blobs?: string[];
+  stat?: FileStat;
+  skipped?: SkippedFileEntry;
+  failedAt?: number;
+}
+
+interface LogRecord extends Partial<FileRecord> {
+  header?: { version: number; backend: string };
+  deletedBlobs?: string[];
+  commit?: number;
+}
+
+/**
+ * 可原地修改的索引状态，用于回放日志；维护 blob 引用计数以推导 blob_names 和 deleted_blobs
+ */
+class StoreBuilder {
+  private fileMap: Record<string, string[]> = {};
+  private fileStats: Record<string, FileStat> = {};
+  private skippedFiles: Record<string, SkippedFileEntry> = {};
+  private failedFiles: Record<string, number> = {};
+  private refs = new Map<string, number>();
+  private deleted = new Set<string>();
+  private backend = 'remote';
+  private syncedAt?: number;
+
+  static from(store: IndexStore): StoreBuilder {
+    const builder = new StoreBuilder();
+    builder.fileMap = { ...store.file_map };
+    builder.fileStats = { ...store.file_stats };
+    builder.skippedFiles = { ...store.skipped_files };
+    builder.failedFiles = { ...store.failed_files };
+    builder.deleted = new Set(store.deleted_blobs);
+    builder.backend = store.backend || 'remote';
+    builder.syncedAt = store.synced_at;
+    for (const hashes of Object.values(store.file_map)) {
+      for (const hash of hashes) {
+        builder.refs.set(hash, (builder.refs.get(hash) || 0) + 1);
+      }
+    }
+    return builder;
+  }
+
+  apply(record: LogRecord): void {
+    if (record.header) {
+      this.backend = record.header.backend;
+    } else if (record.deletedBlobs) {
+      this.deleted = new Set(record.deletedBlobs);
+    } else if (typeof record.commit === 'number') {
+      this.syncedAt = record.commit;
+    } else if (typeof record.path === 'string') {
+      this.applyFile(record as FileRecord);
+    }
+  }
+
+  private applyFile(record: FileRecord): void {
+    const filePath = record.path;
+    const previous = this.fileMap[filePath] || [];
+    const next = record.blobs || [];
+
+    for (const hash of next) {
+      this.refs.set(hash, (this.refs.get(hash) || 0) + 1);
+      this.deleted.delete(hash);
+    }
+    for (const hash of previous) {
+      const count = (this.refs.get(hash) || 0) - 1;
+      if (count > 0) {
+        this.refs.set(hash, count);
+      } else {
+        this.refs.delete(hash);
+        // 重新加入以保持按删除时间排序
+        this.deleted.delete(hash);
+        this.deleted.add(hash);
+      }
+    }
+
+    setOrDelete(this.fileMap, filePath, record.blobs);
+    setOrDelete(this.fileStats, filePath, record.stat);
+    setOrDelete(this.skippedFiles, filePath, record.skipped);
+    setOrDelete(this.failedFiles, filePath, record.failedAt);
+  }
+
+  toStore(): IndexStore {
+    return {
+      version: INDEX_STORE_VERSION,
+      blob_names: [...this.refs.keys()],
+      file_map: this.fileMap,
+      file_stats: this.fileStats,
+      deleted_blobs: [...this.deleted].slice(-MAX_DELETED_BLOBS),
+      skipped_files: this.skippedFiles,
+      failed_files: this.failedFiles,
+      synced_at: this.syncedAt,
+      backend: this.backend
+    };
+  }
+}
+
+function setOrDelete<T>(target: Record<string, T>, key: string, value: T | undefined): void {
+  if (value === undefined) {
+    delete target[key];
+  } else {
+    target[key] = value;
+  }
+}
+
+function fileRecordOf(store: IndexStore, filePath: string): FileRecord {
+  return {
+    path: filePath,
+    blobs: store.file_map[filePath],
+    stat: store.file_stats[filePath],
+    skipped: store.skipped_files[filePath],
+    failedAt: store.failed_files[filePath]
+  };
+}
+
+function storePaths(store: IndexStore): string[] {
+  return [
+    ...Object.keys(store.file_map),
+    ...Object.keys(store.skipped_files),
+    ...Object.keys(store.failed_files)
+  ];
+}
+
+function isSameEntry<T>(a: T | undefined, b: T | undefined): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 找出 next 相对 base 有变化的文件；未修改的条目与 base 共享引用，多数情况下无需序列化比较
+ */
+function diffStores(base: IndexStore, next: IndexStore): FileRecord[] {
+  const records: FileRecord[] = [];
+  for (const filePath of new Set([...storePaths(base), ...storePaths(next)])) {
+    const changed =
+      !isSameEntry(base.file_map[filePath], next.file_map[filePath]) ||
+      !isSameEntry(base.file_stats[filePath], next.file_stats[filePath]) ||
+      !isSameEntry(base.skipped_files[filePath], next.skipped_files[filePath]) ||
+      base.failed_files[filePath] !== next.failed_files[filePath];
+    if (changed) {
+      records.push(fileRecordOf(next, filePath));
+    }
+  }
+  return records;
+}
+
+/**
+ * next 相对 base 是否有文件条目变化，没有变化时无需保存
+ */
+export function hasStoreChanges(base: IndexStore, next: IndexStore): boolean {
+  return diffStores(base, next).length > 0;
+}
+
+/**
+ * 读取 v1/v2 的 index.json，v1 为 blob 名称数组
+ */
+function parseLegacyStore(content: string): IndexStore | null {
+  const parsed = JSON.parse(content);
+  if (Array.isArray(parsed)) {
+    return {
+      version: 1,
+      blob_names: parsed,
+      file_map: {},
+      file_stats: {},
+      deleted_blobs: [],
+      skipped_files: {},
+      failed_files: {},
+      backend: 'remote'
+    };
+  }
+  if (!parsed || !Array.isArray(parsed.blob_names)) {
+    return null;
+  }
+  const version = typeof parsed.version === 'number' ? parsed.version : 1;
+  return {
+    version,
+    blob_names: parsed.blob_names,
+    file_map: parsed.file_map && typeof parsed.file_map === 'object' ? parsed.file_map : {},
+    file_stats: version >= 2 && parsed.file_stats && typeof parsed.file_stats === 'object'
+      ? parsed.file_stats
+      : {},
+    deleted_blobs: Array.isArray(parsed.deleted_blobs) ? parsed.deleted_blobs : [],
+    skipped_files: parsed.skipped_files && typeof parsed.skipped_files === 'object' ? parsed.skipped_files : {},
+    failed_files: parsed.failed_files && typeof parsed.failed_files === 'object' ? parsed.failed_files : {},
+    synced_at: typeof parsed.synced_at === 'number' ? parsed.synced_at : undefined,
+    backend: typeof parsed.backend === 'string' ? parsed.backend : 'remote'
+  };
+}
+
+export class IndexStorage {
+  private logPath: string;
+  private legacyPath: string;
+  private store: IndexStore | null = null;
+  // 已读取到的位置（最后一条提交标记之后）及对应的文件
+  private offset = 0;
+  private ino = 0;
+  private lines = 0;
+  private legacy = false;
+  // 日志由更新的版本写入或缺少头部，不能在其后追加，下次保存时整体重写
+  private unreadable = false;
+
+  constructor(projectRoot: string) {
+    this.logPath = getIndexFilePath(projectRoot);
+    this.legacyPath = path.join(path.dirname(this.logPath), LEGACY_INDEX_FILE_NAME);
+  }
+
+  /**
+   * 返回当前索引，磁盘上没有索引时返回 null
+   * 返回的对象与缓存共享，调用方不应修改
+   */
+  read(): IndexStore | null {
+    this.refresh();
+    return this.store;
+  }
+
+  /**
+   * 持锁保存 next：只追加相对 base 变化的文件记录；
+   * 其他窗口或进程在此期间保存过时，这些记录应用在磁盘上的最新状态之上
+   * @param base next 所基于的索引数据（通常是此前 read 的返回值）
+   */
+  commit(base: IndexStore, next: IndexStore): Promise<IndexStore> {
+    return withFileLock(this.logPath, () => {
+      this.refresh();
+      const current = this.store;
+      const syncedAt = next.synced_at ?? Date.now();
+
+      // 首次保存、从 index.json 迁移、日志无法读取或切换后端时整体重写
+      if (!current || this.legacy || this.unreadable || current.backend !== next.backend) {
+        this.rewrite({ ...next, version: INDEX_STORE_VERSION, synced_at: syncedAt });
+        return this.store!;
+      }
+
+      const records = diffStores(base, next);
+      if (current !== base && records.length > 0) {
+        sendLog('info', `Index was updated by another window or process, merging ${records.length} changed files`);
+      }
+
+      const lines: LogRecord[] = [...records, { commit: syncedAt }];
+      const data = lines.map((record) => JSON.stringify(record) + '\n').join('');
+      // 丢弃上次写入中断留下的未提交记录
+      if (fs.statSync(this.logPath).size !== this.offset) {
+        fs.truncateSync(this.logPath, this.offset);
+      }
+      fs.appendFileSync(this.logPath, data, 'utf-8');
+      this.offset += Buffer.byteLength(data, 'utf-8');
+      this.lines += lines.length;
+
+      if (current === base) {
+        this.store = { ...next, version: INDEX_STORE_VERSION, synced_at: syncedAt };
+      } else {
+        const builder = StoreBuilder.from(current);
+        lines.forEach((record) => builder.apply(record));
+        this.store = builder.toStore();
+      }
+
+      const liveFiles = Object.keys(this.store.file_map).length + Object.keys(this.store.skipped_files).length;
+      if (this.lines > Math.max(COMPACT_MIN_LINES, liveFiles * COMPACT_RATIO)) {
+        const before = this.lines;
+        this.rewrite(this.store);
+        sendLog('info', `Compacted index log: ${before} -> ${this.lines} records`);
+      }
+      return this.store;
+    });
+  }
+
+  /**
+   * 删除索引文件（包括旧格式的 index.json）
+   */
+  clear(): Promise<void> {
+    return withFileLock(this.logPath, () => {
+      for (const filePath of [this.logPath, this.legacyPath]) {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      }
+      this.reset();
+    });
+  }
+
+  private reset(): void {
+    this.store = null;
+    this.offset = 0;
+    this.ino = 0;
+    this.lines = 0;
+    this.legacy = false;
+    this.unreadable = false;
+  }
+
+  /**
+   * 与磁盘同步：文件被替换（压缩或删除）时重新加载，有新追加的内容时只读取新增部分
+   */
+  private refresh(): void {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.logPath);
+    } catch {
+      this.loadLegacy();
+      return;
+    }
+
+    if (this.legacy || stat.ino !== this.ino || stat.size < this.offset) {
+      this.reset();
+      this.ino = stat.ino;
+    }
+    if (stat.size === this.offset && this.store) {
+      return;
+    }
+    this.readLog(stat.size);
+  }
+
+  private readLog(size: number): void {
+    const length = size - this.offset;
+    const buffer = Buffer.alloc(length);
+    const fd = fs.openSync(this.logPath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, length, this.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const builder = this.store ? StoreBuilder.from(this.store) : new StoreBuilder();
+    let pending: LogRecord[] = [];
+    let position = 0;
+    let committed = 0;
+    let lines = 0;
+    let hasHeader = !!this.store;
+
+    while (position < buffer.length) {
+      const end = buffer.indexOf(10, position);
+      if (end === -1) {
+        // 未写完的最后一行
+        break;
+      }
+      const line = buffer.toString('utf-8', position, end).trim();
+      position = end + 1;
+      if (!line) {
+        continue;
+      }
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line) as LogRecord;
+      } catch {
+        sendLog('warning', `Ignoring malformed index record in ${this.logPath}`);
+        continue;
+      }
+      if (record.header) {
+        if (record.header.version > INDEX_STORE_VERSION) {
+          sendLog('warning', `Index was written by a newer version (v${record.header.version}), re-indexing`);
+          this.markUnreadable();
+          return;
+        }
+        hasHeader = true;
+      }
+      pending.push(record);
+      if (typeof record.commit === 'number') {
+        pending.forEach((item) => builder.apply(item));
+        lines += pending.length;
+        pending = [];
+        committed = position;
+      }
+    }
+
+    if (committed === 0) {
+      // 没有新的完整提交
+      return;
+    }
+    if (!hasHeader) {
+      sendLog('warning', `Index log ${this.logPath} has no header, re-indexing`);
+      this.markUnreadable();
+      return;
+    }
+    this.offset += committed;
+    this.lines += lines;
+    this.store = builder.toStore();
+    this.unreadable = false;
+  }
+
+  /**
+   * 丢弃已读取的内容；之后每次读取都从头检查，文件被替换为可读的日志前保存会整体重写
+   */
+  private markUnreadable(): void {
+    const ino = this.ino;
+    this.reset();
+    this.ino = ino;
+    this.unreadable = true;
+  }
+
+  /**
+   * 读取旧格式的 index.json，首次保存时迁移为日志
+   */
+  private loadLegacy(): void {
+    if (this.legacy && this.store) {
+      return;
+    }
+    this.reset();
+    if (!fs.existsSync(this.legacyPath)) {
+      return;
+    }
+    try {
+      this.store = parseLegacyStore(fs.readFileSync(this.legacyPath, 'utf-8'));
+      this.legacy = !!this.store;
+    } catch (error) {
+      sendLog('error', `Failed to load index: ${error}`);
+    }
+  }
+
+  /**
+   * 将完整状态写为新的日志文件（压缩），并删除旧格式的 index.json
+   */
+  private rewrite(store: IndexStore): void {
+    const records: LogRecord[] = [
+      { header: { version: INDEX_STORE_VERSION, backend: store.backend || 'remote' } },
+      ...[...new Set(storePaths(store))].map((filePath) => fileRecordOf(store, filePath)),
+      { deletedBlobs: store.deleted_blobs },
+      { commit: store.synced_at ?? Date.now() }
+    ];
+    const data = records.map((record) => JSON.stringify(record) + '\n').join('');
+    writeFileAtomic(this.logPath, data);
+    if (fs.existsSync(this.legacyPath)) {
+      fs.unlinkSync(this.legacyPath);
+    }
+
+    this.reset();
+    this.ino = fs.statSync(this.logPath).ino;
+    this.offset = Buffer.byteLength(data, 'utf-8');
+    this.lines = records.length;
+    this.store = { ...store, version: INDEX_STORE_VERSION };
+  }
+}
+
+// 按项目缓存，同一项目的多个 IndexManager 共用一份内存中的索引
+const storages = new Map<string, IndexStorage>();
+
+export function openIndexStorage(projectRoot: string): IndexStorage {
+  const key = path.resolve(projectRoot);
+  let storage = storages.get(key);
+  if (!storage) {
+    storage = new IndexStorage(projectRoot);
+    storages.set(key, storage);
+  }
+  return storage;
+}
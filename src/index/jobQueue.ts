@@ -0,0 +1,386 @@
+/**
+ * 索引任务队列 - 串行执行索引任务，合并等待中的文件路径，保证更新不会丢失
+ * 完整索引运行期间到达的文件变更会在其结束后再同步一次
+ * 多根工作区中按文件夹分别排队，每个文件夹使用各自的 IndexManager
+ */
+
+import * as vscode from 'vscode';
+import { IndexManager, IndexProgressReporter, IndexProgressUpdate, IndexResult } from './manager';
+import { getWorkspaceFolderName, getWorkspaceFolderRoot } from './workspaceFolders';
+import { sendLog } from '../utils/VSCodeAdapter';
+
+// 文件变更入队后等待的时间（毫秒），合并短时间内的连续保存
+const FILE_JOB_DEBOUNCE_DELAY = 500;
+
+type IndexJobKind = 'full' | 'files' | 'maintenance';
+
+/**
+ * 维护任务（清空、重建索引等），独占执行以免与其他任务同时读写索引文件
+ */
+export type IndexMaintenanceTask<T> = (
+  indexManager: IndexManager,
+  reporter: IndexProgressReporter,
+  token: vscode.CancellationToken
+) => Promise<T>;
+
+interface PendingTask {
+  projectRoot: string;
+  run: IndexMaintenanceTask<void>;
+  // 任务被丢弃（取消或无法执行）时调用
+  discard: () => void;
+}
+
+export interface IndexQueueStatus {
+  running: IndexJobKind | null;
+  pendingFiles: number;
+  pendingFull: boolean;
+}
+
+/**
+ * 单个工作区文件夹的排队状态
+ */
+export interface IndexFolderStatus {
+  // 等待同步或正在同步的路径
+  pendingPaths: string[];
+  running: IndexJobKind | null;
+}
+
+export class IndexJobQueue implements vscode.Disposable {
+  // 按工作区文件夹根路径分组的待同步路径
+  private pendingPaths = new Map<string, Set<string>>();
+  // 等待完整索引的文件夹及其结果回调
+  private pendingFull = new Map<string, Array<(result: IndexResult | null) => void>>();
+  // 需要忽略上次记录、强制重新读取的文件夹
+  private forcedRoots = new Set<string>();
+  private pendingTasks: PendingTask[] = [];
+  private running: IndexJobKind | null = null;
+  // 当前任务所属的文件夹及其同步的路径（完整索引时为 null）
+  private activeJob: { projectRoot: string; paths: string[] | null } | null = null;
+  private draining = false;
+  private timer: NodeJS.Timeout | null = null;
+  private lastUpdate: IndexProgressUpdate | null = null;
+  private disposed = false;
+  // 当前任务的取消令牌
+  private cancellation: vscode.CancellationTokenSource | null = null;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  // 排队或执行状态变化时触发
+  public readonly onDidChange: vscode.Event<void> = this.changeEmitter.event;
+
+  /**
+   * @param createIndexManager 每个任务开始时为指定文件夹创建 IndexManager（读取最新配置），返回 null 表示无法执行
+   * @param reporter 进度报告回调，进度中附带排队数量
+   */
+  constructor(
+    private readonly createIndexManager: (projectRoot: string) => IndexManager | null,
+    private readonly reporter?: (update: IndexProgressUpdate) => void
+  ) {}
+
+  /**
+   * 将文件或目录加入所属工作区文件夹的同步队列，不属于任何文件夹的路径被忽略
+   * @param force 忽略上次的元数据重新读取（同一文件夹中合并的其他路径一并重新读取）
+   */
+  public enqueueFiles(filePaths: string[], force: boolean = false): void {
+    if (this.disposed) {
+      return;
+    }
+
+    let added = false;
+    for (const filePath of filePaths) {
+      const projectRoot = getWorkspaceFolderRoot(filePath);
+      if (!projectRoot) {
+        continue;
+      }
+      let paths = this.pendingPaths.get(projectRoot);
+      if (!paths) {
+        paths = new Set();
+        this.pendingPaths.set(projectRoot, paths);
+      }
+      paths.add(filePath);
+      if (force) {
+        this.forcedRoots.add(projectRoot);
+      }
+      added = true;
+    }
+
+    if (added) {
+      this.reportQueued();
+      this.changeEmitter.fire();
+      this.schedule(FILE_JOB_DEBOUNCE_DELAY);
+    }
+  }
+
+  /**
+   * 请求对指定文件夹执行一次完整的增量索引，多次请求会合并为一次
+   * @returns 完整索引的结果，队列无法执行时返回 null
+   */
+  public enqueueFullIndex(projectRoot: string): Promise<IndexResult | null> {
+    if (this.disposed) {
+      return Promise.resolve(null);
+    }
+    return new Promise((resolve) => {
+      const waiters = this.pendingFull.get(projectRoot) || [];
+      waiters.push(resolve);
+      this.pendingFull.set(projectRoot, waiters);
+      this.reportQueued();
+      this.changeEmitter.fire();
+      this.schedule(0);
+    });
+  }
+
+  /**
+   * 排队执行维护任务，优先于其他等待中的任务
+   * @returns 任务的结果，任务被取消或无法执行时返回 null；任务抛出的错误会传给调用方
+   */
+  public enqueueTask<T>(projectRoot: string, task: IndexMaintenanceTask<T>): Promise<T | null> {
+    if (this.disposed) {
+      return Promise.resolve(null);
+    }
+    return new Promise((resolve, reject) => {
+      this.pendingTasks.push({
+        projectRoot,
+        run: (indexManager, reporter, token) => task(indexManager, reporter, token).then(resolve, reject),
+        discard: () => resolve(null)
+      });
+      this.changeEmitter.fire();
+      this.schedule(0);
+    });
+  }
+
+  /**
+   * 取消正在执行的任务并清空队列，被丢弃的文件会在下次完整索引时重新处理
+   * @returns 是否有任务被取消
+   */
+  public cancel(): boolean {
+    const hadWork =
+      this.running !== null || this.pendingTasks.length > 0 || this.pendingFull.size > 0 || this.pendingPaths.size > 0;
+    this.discardTasks();
+    this.pendingPaths.clear();
+    this.forcedRoots.clear();
+    for (const projectRoot of [...this.pendingFull.keys()]) {
+      this.resolveFullWaiters(projectRoot, null);
+    }
+    if (this.cancellation) {
+      this.cancellation.cancel();
+    }
+    this.changeEmitter.fire();
+    return hadWork;
+  }
+
+  public getStatus(): IndexQueueStatus {
+    return {
+      running: this.running,
+      pendingFiles: this.countPendingPaths(),
+      pendingFull: this.pendingFull.size > 0
+    };
+  }
+
+  private discardTasks(): void {
+    const tasks = this.pendingTasks;
+    this.pendingTasks = [];
+    for (const task of tasks) {
+      task.discard();
+    }
+  }
+
+  public getFolderStatus(projectRoot: string): IndexFolderStatus {
+    const pendingPaths = new Set(this.pendingPaths.get(projectRoot) || []);
+    const activeJob = this.activeJob?.projectRoot === projectRoot ? this.activeJob : null;
+    for (const filePath of activeJob?.paths || []) {
+      pendingPaths.add(filePath);
+    }
+    return {
+      pendingPaths: [...pendingPaths],
+      running: activeJob ? this.running : null
+    };
+  }
+
+  private countPendingPaths(): number {
+    let count = 0;
+    for (const paths of this.pendingPaths.values()) {
+      count += paths.size;
+    }
+    return count;
+  }
+
+  private schedule(delay: number): void {
+    // 正在执行时由 drain 循环继续处理新任务
+    if (this.draining) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.drain();
+    }, delay);
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      while (
+        !this.disposed &&
+        (this.pendingTasks.length > 0 || this.pendingFull.size > 0 || this.pendingPaths.size > 0)
+      ) {
+        // 维护任务最先执行；完整索引其次，它会覆盖同一文件夹中排队的文件
+        const task = this.pendingTasks.shift();
+        const isFull = !task && this.pendingFull.size > 0;
+        const projectRoot = task
+          ? task.projectRoot
+          : isFull
+            ? this.pendingFull.keys().next().value as string
+            : this.pendingPaths.keys().next().value as string;
+
+        const indexManager = this.createIndexManager(projectRoot);
+        if (!indexManager) {
+          if (task) {
+            task.discard();
+            continue;
+          }
+          this.pendingPaths.delete(projectRoot);
+          this.forcedRoots.delete(projectRoot);
+          this.resolveFullWaiters(projectRoot, null);
+          continue;
+        }
+
+        this.cancellation = new vscode.CancellationTokenSource();
+        try {
+          if (task) {
+            await this.runTask(task, indexManager, this.cancellation.token);
+          } else if (isFull) {
+            await this.runFullIndex(projectRoot, indexManager, this.cancellation.token);
+          } else {
+            await this.runFileSync(projectRoot, indexManager, this.cancellation.token);
+          }
+        } finally {
+          this.cancellation.dispose();
+          this.cancellation = null;
+          this.activeJob = null;
+          this.changeEmitter.fire();
+        }
+      }
+    } finally {
+      this.running = null;
+      this.draining = false;
+    }
+  }
+
+  private async runFullIndex(
+    projectRoot: string,
+    indexManager: IndexManager,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    // 完整索引开始前排队的文件由本次索引覆盖
+    const waiters = this.pendingFull.get(projectRoot) || [];
+    this.pendingFull.delete(projectRoot);
+    this.pendingPaths.delete(projectRoot);
+    this.forcedRoots.delete(projectRoot);
+    this.running = 'full';
+    this.activeJob = { projectRoot, paths: null };
+    this.changeEmitter.fire();
+
+    let result: IndexResult | null = null;
+    try {
+      result = await indexManager.indexProject((update) => this.report(projectRoot, update), token);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      sendLog('error', `索引任务失败: ${message}`);
+      result = { status: 'error', message };
+    } finally {
+      this.running = null;
+    }
+    for (const resolve of waiters) {
+      resolve(result);
+    }
+  }
+
+  private async runTask(
+    task: PendingTask,
+    indexManager: IndexManager,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    this.running = 'maintenance';
+    this.activeJob = { projectRoot: task.projectRoot, paths: null };
+    this.changeEmitter.fire();
+    try {
+      // 结果和错误都通过 enqueueTask 返回的 Promise 交给调用方
+      await task.run(indexManager, (update) => this.report(task.projectRoot, update), token);
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async runFileSync(
+    projectRoot: string,
+    indexManager: IndexManager,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const paths = [...(this.pendingPaths.get(projectRoot) || [])];
+    const force = this.forcedRoots.delete(projectRoot);
+    this.pendingPaths.delete(projectRoot);
+
+    // 尚未建立索引时不做增量同步，首次索引会处理全部文件
+    if (indexManager.getBlobNames().length === 0) {
+      sendLog('info', `索引尚未建立，跳过 ${paths.length} 个文件的增量同步`);
+      return;
+    }
+
+    this.running = 'files';
+    this.activeJob = { projectRoot, paths };
+    this.changeEmitter.fire();
+    try {
+      sendLog('info', `开始同步 ${paths.length} 个路径`);
+      const result = await indexManager.indexFiles(paths, (update) => this.report(projectRoot, update), token, force);
+      sendLog('info', `同步完成: ${result.message}`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      sendLog('error', `索引同步失败: ${message}`);
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private resolveFullWaiters(projectRoot: string, result: IndexResult | null): void {
+    const waiters = this.pendingFull.get(projectRoot) || [];
+    this.pendingFull.delete(projectRoot);
+    for (const resolve of waiters) {
+      resolve(result);
+    }
+  }
+
+  private report(projectRoot: string, update: IndexProgressUpdate): void {
+    // 多个文件夹时在进度中标明当前文件夹
+    const multiRoot = (vscode.workspace.workspaceFolders || []).length > 1;
+    const message = multiRoot ? `[${getWorkspaceFolderName(projectRoot)}] ${update.message}` : update.message;
+    this.lastUpdate = { ...update, message };
+    if (this.reporter) {
+      this.reporter({ ...this.lastUpdate, queued: this.countPendingPaths() });
+    }
+  }
+
+  /**
+   * 任务执行期间有新任务入队时，刷新进度中的排队数量
+   */
+  private reportQueued(): void {
+    if (this.running && this.lastUpdate && this.reporter) {
+      this.reporter({ ...this.lastUpdate, queued: this.countPendingPaths() });
+    }
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    this.cancellation?.cancel();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.discardTasks();
+    this.pendingPaths.clear();
+    this.forcedRoots.clear();
+    for (const projectRoot of [...this.pendingFull.keys()]) {
+      this.resolveFullWaiters(projectRoot, null);
+    }
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * 词法索引 - BM25 排序的倒排索引，查询词不在词表中时按三元组（trigram）相似度扩展
+ * 供离线检索后端使用，不依赖网络
+ */
+
+export interface LexicalDocument {
+  // blob 名称
+  name: string;
+  // 切片路径，切片为 `${path}#chunk${i}of${n}`
+  path: string;
+  content: string;
+  // 切片在源文件中的起始行（从 1 开始）
+  startLine: number;
+}
+
+export interface LexicalHit {
+  // 源文件相对路径（去掉切片后缀）
+  path: string;
+  score: number;
+  startLine: number;
+  endLine: number;
+  snippet: string;
+}
+
+export interface LexicalSearchOptions {
+  // 最多返回的片段数
+  limit?: number;
+  // 只在这些 blob 中检索
+  allowed?: ReadonlySet<string>;
+}
+
+interface IndexedDocument extends LexicalDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// 路径中出现查询词时的额外得分权重
+const PATH_MATCH_WEIGHT = 0.5;
+// 三元组相似度低于该值的词不作为扩展
+const FUZZY_MIN_SIMILARITY = 0.4;
+const FUZZY_MAX_EXPANSIONS = 3;
+const DEFAULT_LIMIT = 8;
+const SNIPPET_LINES = 30;
+
+const CHUNK_SUFFIX = /#chunk\d+of\d+$/;
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+// 拆分 camelCase、PascalCase 和 snake_case
+const SUBWORD_PATTERN = /_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+
+export function sourcePathOf(blobPath: string): string {
+  return blobPath.replace(CHUNK_SUFFIX, '');
+}
+
+/**
+ * 分词：完整标识符及其 camelCase/snake_case 子词，中日韩文字按二元组切分
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    if (CJK_PATTERN.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) {
+        tokens.push(word.slice(i, i + 2).toLowerCase());
+      }
+      if (word.length === 1) {
+        tokens.push(word);
+      }
+      continue;
+    }
+
+    const lower = word.toLowerCase();
+    if (lower.length >= 2) {
+      tokens.push(lower);
+    }
+    const parts = word.split(SUBWORD_PATTERN);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const subword = part.toLowerCase();
+        if (subword.length >= 2 && subword !== lower) {
+          tokens.push(subword);
+        }
+      }
+    }
+  }
+  return tokens;
+}
+
+function trigramsOf(term: string): string[] {
+  const padded = `^${term}$`;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return [...grams];
+}
+
+export class LexicalIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private trigramIndex = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  public has(name: string): boolean {
+    return this.documents.has(name);
+  }
+
+  public names(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  public documentsIn(names: Iterable<string>): LexicalDocument[] {
+    const result: LexicalDocument[] = [];
+    for (const name of names) {
+      const document = this.documents.get(name);
+      if (document) {
+        result.push({ name, path: document.path, content: document.content, startLine: document.startLine });
+      }
+    }
+    return result;
+  }
+
+  public add(document: LexicalDocument): void {
+    if (this.documents.has(document.name)) {
+      return;
+    }
+    const termFrequencies = new Map<string, number>();
+    const tokens = tokenize(document.content);
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      const frequency = (this.documentFrequencies.get(term) || 0) + 1;
+      this.documentFrequencies.set(term, frequency);
+      if (frequency === 1) {
+        for (const gram of trigramsOf(term)) {
+          let terms = this.trigramIndex.get(gram);
+          if (!terms) {
+            terms = new Set();
+            this.trigramIndex.set(gram, terms);
+          }
+          terms.add(term);
+        }
+      }
+    }
+    this.documents.set(document.name, { ...document, termFrequencies, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  public remove(name: string): void {
+    const document = this.documents.get(name);
+    if (!document) {
+      return;
+    }
+    for (const term of document.termFrequencies.keys()) {
+      const frequency = (this.documentFrequencies.get(term) || 0) - 1;
+      if (frequency > 0) {
+        this.documentFrequencies.set(term, frequency);
+        continue;
+      }
+      this.documentFrequencies.delete(term);
+      for (const gram of trigramsOf(term)) {
+        const terms = this.trigramIndex.get(gram);
+        terms?.delete(term);
+        if (terms && terms.size === 0) {
+          this.trigramIndex.delete(gram);
+        }
+      }
+    }
+    this.documents.delete(name);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * 查询词及权重：词表中存在的词权重为 1，不存在的词扩展为三元组相似的词
+   */
+  private expandQuery(query: string): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      if (this.documentFrequencies.has(term)) {
+        weights.set(term, 1);
+        continue;
+      }
+
+      const grams = trigramsOf(term);
+      const shared = new Map<string, number>();
+      for (const gram of grams) {
+        for (const candidate of this.trigramIndex.get(gram) || []) {
+          shared.set(candidate, (shared.get(candidate) || 0) + 1);
+        }
+      }
+      const candidates = [...shared.entries()]
+        // "^term$" 的三元组数约等于词长
+        .map(([candidate, count]) => ({ candidate, similarity: count / (grams.length + candidate.length - count) }))
+        .filter((item) => item.similarity >= FUZZY_MIN_SIMILARITY)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, FUZZY_MAX_EXPANSIONS);
+      for (const { candidate, similarity } of candidates) {
+        weights.set(candidate, Math.max(weights.get(candidate) || 0, similarity));
+      }
+    }
+    return weights;
+  }
+
+  public search(query: string, options: LexicalSearchOptions = {}): LexicalHit[] {
+    const weights = this.expandQuery(query);
+    if (weights.size === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const scored: Array<{ document: IndexedDocument; score: number }> = [];
+    for (const [name, document] of this.documents) {
+      if (options.allowed && !options.allowed.has(name)) {
+        continue;
+      }
+      let score = 0;
+      for (const [term, weight] of weights) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const norm = frequency + BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength);
+        score += weight * idf * ((frequency * (BM25_K1 + 1)) / norm);
+      }
+      if (score === 0) {
+        continue;
+      }
+      const pathTerms = new Set(tokenize(sourcePathOf(document.path)));
+      for (const [term, weight] of weights) {
+        if (pathTerms.has(term)) {
+          score += PATH_MATCH_WEIGHT * weight;
+        }
+      }
+      scored.push({ document, score });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.document.path.localeCompare(b.document.path))
+      .slice(0, options.limit ?? DEFAULT_LIMIT)
+      .map(({ document, score }) => ({ score, ...this.bestSnippet(document, weights) }));
+  }
+
+  /**
+   * 选取查询词命中最多的连续行作为片段
+   */
+  private bestSnippet(
+    document: IndexedDocument,
+    weights: Map<string, number>
+  ): Omit<LexicalHit, 'score'> {
+    const lines = document.content.split(/\r?\n/);
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    let start = 0;
+    if (lines.length > SNIPPET_LINES) {
+      const lineScores = lines.map((line) =>
+        tokenize(line).reduce((sum, token) => sum + (weights.get(token) || 0), 0)
+      );
+      let windowScore = lineScores.slice(0, SNIPPET_LINES).reduce((sum, value) => sum + value, 0);
+      let bestScore = windowScore;
+      for (let i = 1; i + SNIPPET_LINES <= lines.length; i++) {
+        windowScore += lineScores[i + SNIPPET_LINES - 1] - lineScores[i - 1];
+        if (windowScore > bestScore) {
+          bestScore = windowScore;
+          start = i;
+        }
+      }
+    }
+
+    const snippetLines = lines.slice(start, start + SNIPPET_LINES);
+    return {
+      path: sourcePathOf(document.path),
+      startLine: document.startLine + start,
+      endLine: document.startLine + start + snippetLines.length - 1,
+      snippet: snippetLines.join('\n')
+    };
+  }
+}
+
+/**
+ * 按服务端 formatted_retrieval 的样式输出检索结果，片段带行号
+ */
+export function formatLexicalHits(hits: LexicalHit[]): string {
+  if (hits.length === 0) {
+    return '';
+  }
+  const sections = hits.map((hit) => {
+    const numbered = hit.snippet
+      .split('\n')
+      .map((line, offset) => `${String(hit.startLine + offset).padStart(6)}\t${line}`);
+    return [`Path: ${hit.path}`, ...numbered].join('\n');
+  });
+  return ['The following code sections were retrieved:', ...sections].join('\n\n');
+}
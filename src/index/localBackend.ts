@@ -0,0 +1,139 @@
+/**
+ * 本地检索后端 - 切片保存在 .ace-sidebar/local-index.jsonl，用词法索引（BM25 + trigram）离线检索
+ * 不需要网络，不支持提示词增强
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as vscode from 'vscode';
+import { sendLog } from '../utils/VSCodeAdapter';
+import { writeFileAtomic } from '../utils/fileLock';
+import { getAceDir } from '../utils/projectDetector';
+import { BackendBlob, RetrievalBackend, RetrievalRequest, calculateBlobName, throwIfCancelled } from './backend';
+import { LexicalDocument, LexicalIndex, formatLexicalHits } from './lexicalIndex';
+
+const STORE_FILE_NAME = 'local-index.jsonl';
+// 文件中不再被索引引用的记录超过该比例时重写文件
+const COMPACT_DEAD_RATIO = 0.5;
+const COMPACT_MIN_RECORDS = 200;
+
+interface LocalStore {
+  index: LexicalIndex;
+  // 文件中的记录数（含已不再引用的记录）
+  records: number;
+  // 加载或写入后的文件大小，与磁盘不一致时重新加载
+  size: number;
+  // 本进程上传、尚未出现在已保存索引中的切片，压缩时保留（上传完成到保存索引之间可能发生检索或其他索引任务）
+  pending: Set<string>;
+}
+
+// 按存储文件缓存，同一项目的多个 IndexManager 共用
+const stores = new Map<string, LocalStore>();
+
+export class LocalBackend implements RetrievalBackend {
+  public readonly id = 'local';
+  private storePath: string;
+
+  constructor(projectRoot: string) {
+    this.storePath = path.join(getAceDir(projectRoot), STORE_FILE_NAME);
+  }
+
+  /**
+   * 获取缓存的存储，文件被其他进程修改或删除后重新加载
+   */
+  private loadStore(): LocalStore {
+    const size = fs.existsSync(this.storePath) ? fs.statSync(this.storePath).size : 0;
+    const cached = stores.get(this.storePath);
+    if (cached && cached.size === size) {
+      return cached;
+    }
+
+    const store: LocalStore = { index: new LexicalIndex(), records: 0, size, pending: new Set() };
+    if (size > 0) {
+      const lines = fs.readFileSync(this.storePath, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const document = JSON.parse(line) as LexicalDocument;
+          store.index.add(document);
+          store.records++;
+        } catch {
+          // 忽略写入中断留下的不完整记录
+        }
+      }
+    }
+    stores.set(this.storePath, store);
+    return store;
+  }
+
+  async uploadBlobs(blobs: BackendBlob[], token?: vscode.CancellationToken): Promise<string[]> {
+    throwIfCancelled(token);
+    const store = this.loadStore();
+    const names: string[] = [];
+    const lines: string[] = [];
+    for (const blob of blobs) {
+      const name = calculateBlobName(blob.path, blob.content);
+      names.push(name);
+      store.pending.add(name);
+      if (store.index.has(name)) {
+        continue;
+      }
+      const document: LexicalDocument = { name, path: blob.path, content: blob.content, startLine: blob.startLine };
+      store.index.add(document);
+      lines.push(JSON.stringify(document));
+    }
+
+    if (lines.length > 0) {
+      const data = lines.join('\n') + '\n';
+      await fs.promises.appendFile(this.storePath, data, 'utf-8');
+      store.records += lines.length;
+      store.size += Buffer.byteLength(data, 'utf-8');
+    }
+    return names;
+  }
+
+  async retrieve(request: RetrievalRequest, token?: vscode.CancellationToken): Promise<string> {
+    throwIfCancelled(token);
+    const store = this.loadStore();
+    const allowed = new Set(request.blobNames);
+    const missing = request.blobNames.filter((name) => !store.index.has(name)).length;
+    if (missing > 0) {
+      sendLog('warning', `${missing} indexed blobs are missing from the local store, rebuild the index to restore them`);
+    }
+
+    const hits = store.index.search(request.query, { allowed });
+    return formatLexicalHits(hits);
+  }
+
+  /**
+   * 丢弃索引中已不存在的切片，不再引用的记录较多时重写存储文件
+   */
+  compact(liveBlobNames: Set<string>): void {
+    const store = this.loadStore();
+    for (const name of store.index.names()) {
+      if (liveBlobNames.has(name)) {
+        store.pending.delete(name);
+      } else if (!store.pending.has(name)) {
+        store.index.remove(name);
+      }
+    }
+
+    const dead = store.records - store.index.size;
+    if (store.records < COMPACT_MIN_RECORDS || dead / store.records < COMPACT_DEAD_RATIO) {
+      return;
+    }
+
+    try {
+      const documents = store.index.documentsIn(store.index.names());
+      const data = documents.map((document) => JSON.stringify(document) + '\n').join('');
+      writeFileAtomic(this.storePath, data);
+      store.records = documents.length;
+      store.size = Buffer.byteLength(data, 'utf-8');
+      sendLog('info', `Compacted local index: ${dead} stale blobs removed`);
+    } catch (error) {
+      sendLog('warning', `Failed to compact local index: ${error}`);
+    }
+  }
+}
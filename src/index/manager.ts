@@ -2,42 +2,171 @@
  * 索引管理器 - 管理文件收集、索引和搜索操作
  */
 
-import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import iconv from 'iconv-lite';
-import ignore from 'ignore';
 import * as vscode from 'vscode';
+import { Config } from '../config';
 import { sendLog } from '../utils/VSCodeAdapter';
-import { getIndexFilePath } from '../utils/projectDetector';
+import {
+  BackendBlob,
+  BackendUnavailableError,
+  DialogExchange,
+  RetrievalBackend,
+  calculateBlobName,
+  createRetrievalBackend,
+  isCancellationError,
+  registerRetrievalBackend,
+  throwIfCancelled
+} from './backend';
+import { chunkContent } from './chunker';
+import {
+  CommitHistoryEntry,
+  CommitHistoryStorage,
+  CommitRetrievalOptions,
+  DEFAULT_COMMIT_RETRIEVAL,
+  commitPath,
+  formatCommitDocument,
+  listRecentCommits,
+  readCommits,
+  readHeadCommit
+} from './commitHistory';
+import { EncodingOverrides, decodeBuffer } from './encoding';
+import { IgnoreRules, matchesExcludePatterns } from './ignoreRules';
+import {
+  CONTENT_SKIP_REASONS,
+  DEFAULT_FILE_LIMITS,
+  FileLimits,
+  SkippedFile,
+  checkFileSize,
+  detectGeneratedContent,
+  isBinaryContent
+} from './fileFilter';
+import {
+  DEFAULT_SECRET_SCAN_OPTIONS,
+  SecretFinding,
+  SecretScanOptions,
+  SecretScanner,
+  describeSecrets,
+  redactSecrets,
+  toSecretFindings
+} from './secretScanner';
+import {
+  FileStat,
+  INDEX_STORE_VERSION,
+  IndexStorage,
+  IndexStore,
+  MAX_DELETED_BLOBS,
+  SkippedFileEntry,
+  hasStoreChanges,
+  openIndexStorage
+} from './indexStorage';
+import { LexicalIndex, formatLexicalHits, sourcePathOf } from './lexicalIndex';
+import { LocalBackend } from './localBackend';
+import { RemoteBackend } from './remoteBackend';
+import { resolveChunkPaths } from './retrievalResult';
+import {
+  SearchScope,
+  SearchScopeMatcher,
+  describeSearchScope,
+  normalizeSearchScope,
+  scopeMismatchMessage
+} from './searchScope';
+
+export { isCancellationError };
+
+// 内置检索后端
+registerRetrievalBackend('remote', (options) => new RemoteBackend(options));
+registerRetrievalBackend('local', (options) => new LocalBackend(options.projectRoot));
 
-type IgnoreInstance = ReturnType<typeof ignore>;
+/**
+ * 离线检索结果的首行标记，界面据此提示结果来自本地关键词检索
+ */
+export const OFFLINE_RESULT_MARKER = '[Offline lexical results]';
+
+// 离线检索使用的词法索引，按项目根目录缓存
+const offlineIndexes = new Map<string, { syncedAt?: number; index: LexicalIndex }>();
 
 export interface IndexProgressUpdate {
-  stage: 'idle' | 'scanning' | 'hashing' | 'uploading' | 'saving' | 'enhancing' | 'searching' | 'complete' | 'error';
+  stage: 'idle' | 'scanning' | 'hashing' | 'uploading' | 'saving' | 'enhancing' | 'searching' | 'complete' | 'error' | 'cancelled';
   message: string;
   percent?: number;
+  // 排队等待同步的路径数
+  queued?: number;
+}
+
+export type IndexProgressReporter = (update: IndexProgressUpdate) => void;
+
+/**
+ * 索引文件保存后触发，携带所属项目根目录
+ */
+export interface IndexChangeEvent {
+  projectRoot: string;
 }
 
-type IndexProgressReporter = (update: IndexProgressUpdate) => void;
+const indexChangeEmitter = new vscode.EventEmitter<IndexChangeEvent>();
+export const onDidChangeIndex: vscode.Event<IndexChangeEvent> = indexChangeEmitter.event;
+
+/**
+ * 首次索引（本地索引为空）上传前的确认回调，返回 false 时取消索引
+ */
+export type FirstIndexGuard = (
+  projectRoot: string,
+  indexManager: IndexManager,
+  token?: vscode.CancellationToken
+) => Promise<boolean>;
+
+let firstIndexGuard: FirstIndexGuard | null = null;
+
+export function setFirstIndexGuard(guard: FirstIndexGuard | null): void {
+  firstIndexGuard = guard;
+}
+
+/**
+ * 将完整索引交给任务队列执行，返回 null 表示队列无法执行
+ */
+export type IndexScheduler = (projectRoot: string) => Promise<IndexResult | null>;
+
+let indexScheduler: IndexScheduler | null = null;
 
-interface IndexStore {
-  version: number;
-  blob_names: string[];
-  file_map: Record<string, string[]>;
+export function setIndexScheduler(scheduler: IndexScheduler | null): void {
+  indexScheduler = scheduler;
 }
 
-interface SearchOptions {
+export interface SearchOptions {
   reporter?: IndexProgressReporter;
+  token?: vscode.CancellationToken;
+  // 只在范围内的文件中检索，未指定时检索全部已索引文件
+  scope?: SearchScope;
+  // 聊天中最近的问答，随检索请求发送
+  dialog?: DialogExchange[];
+}
+
+/**
+ * 检索时附带的提交历史切片
+ */
+interface CommitBlobs {
+  blobNames: string[];
+  deletedBlobNames: string[];
+}
+
+const NO_COMMIT_BLOBS: CommitBlobs = { blobNames: [], deletedBlobNames: [] };
+
+/**
+ * 文件收集结果
+ */
+interface CollectResult {
+  // 需要重新哈希的 blob
+  blobs: Blob[];
+  // 元数据未变化、沿用上次哈希的文件
+  unchangedFiles: Record<string, string[]>;
+  fileStats: Record<string, FileStat>;
+  skippedFiles: Record<string, SkippedFileEntry>;
 }
 
 /**
  * Blob 接口
  */
-interface Blob {
-  path: string;
-  content: string;
+interface Blob extends BackendBlob {
   sourcePath: string;
 }
 
@@ -64,7 +193,7 @@ export interface EditorContext {
 /**
  * 索引结果接口
  */
-interface IndexResult {
+export interface IndexResult {
   status: string;
   message: string;
   stats?: {
@@ -72,56 +201,114 @@ interface IndexResult {
     existing_blobs: number;
     new_blobs: number;
   };
+  // 因大小或内容被跳过的文件
+  skipped?: SkippedFile[];
 }
 
 /**
- * 使用多种编码尝试读取文件
+ * 索引概览，供索引浏览视图展示
  */
-async function readFileWithEncoding(filePath: string): Promise<string> {
-  const buffer = await fs.promises.readFile(filePath);
-  const encodings = ['utf-8', 'gbk', 'gb2312', 'latin1'];
+export interface IndexOverview {
+  // 已索引文件的相对路径及切片数
+  files: Record<string, number>;
+  // 上传失败的文件及失败时间
+  failed: Record<string, number>;
+  skipped: SkippedFile[];
+  syncedAt?: number;
+}
 
-  for (const encoding of encodings) {
-    try {
-      const content = iconv.decode(buffer, encoding);
-      const replacementChars = (content.match(/\uFFFD/g) || []).length;
+/**
+ * 试运行结果：下次索引需要上传的文件，只包含有新切片的文件
+ */
+export interface IndexPreview {
+  files: Array<{ path: string; chunks: number; bytes: number }>;
+  // 内容未变化、无需上传的文件数
+  unchangedFiles: number;
+  skipped: SkippedFile[];
+}
 
-      if (content.length > 0) {
-        if (content.length < 100) {
-          if (replacementChars > 5) continue;
-        } else {
-          if (replacementChars / content.length > 0.05) continue;
-        }
-      }
+/**
+ * 密钥报告条目：上传时被替换（redacted）或因此跳过（skipped）的文件
+ */
+export interface SecretReportEntry {
+  path: string;
+  action: 'redacted' | 'skipped';
+  findings: SecretFinding[];
+}
 
-      if (encoding !== 'utf-8') {
-        // 非 UTF-8 编码，静默处理
-      }
-      return content;
-    } catch {
-      continue;
-    }
-  }
+/**
+ * 索引校验结果（相对路径）
+ */
+export interface IndexVerifyReport {
+  // 应被索引但不在索引中的文件
+  missing: string[];
+  // 索引内容与磁盘内容不一致的文件
+  stale: string[];
+  // 文件已删除、被排除或不再满足索引条件的索引条目
+  orphaned: string[];
+  // 磁盘上应被索引的文件数
+  checkedFiles: number;
+}
 
-  const content = iconv.decode(buffer, 'utf-8');
-  return content;
+/**
+ * 以有限并发执行任务，worker 需自行处理异常；取消后不再启动新任务
+ */
+async function runWithConcurrency(
+  taskCount: number,
+  concurrency: number,
+  worker: (index: number) => Promise<void>,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  let nextIndex = 0;
+  const runnerCount = Math.min(Math.max(1, concurrency), taskCount);
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (nextIndex < taskCount && !token?.isCancellationRequested) {
+      const index = nextIndex++;
+      await worker(index);
+    }
+  });
+  await Promise.all(runners);
 }
 
 /**
- * 计算 blob 名称（SHA-256 哈希）
+ * IndexManager 的配置，可选项缺省时使用默认值
  */
-function calculateBlobName(filePath: string, content: string): string {
-  const hash = crypto.createHash('sha256');
-  hash.update(filePath, 'utf-8');
-  hash.update(content, 'utf-8');
-  return hash.digest('hex');
+export interface IndexManagerOptions {
+  baseUrl: string;
+  token: string;
+  textExtensions: Set<string>;
+  batchSize: number;
+  maxLinesPerBlob?: number;
+  excludePatterns?: string[];
+  userGuidelines?: string;
+  uploadConcurrency?: number;
+  fileLimits?: FileLimits;
+  encodingOverrides?: Record<string, string>;
+  secretScan?: SecretScanOptions;
+  // 检索后端 id，缺省为 remote
+  backend?: string;
+  commitRetrieval?: CommitRetrievalOptions;
 }
 
 /**
- * 睡眠工具函数
+ * 由扩展配置得到 IndexManager 的配置，扩展命令、聊天和 MCP Server 共用
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function indexManagerOptions(config: Config): IndexManagerOptions {
+  return {
+    baseUrl: config.baseUrl,
+    token: config.token,
+    textExtensions: config.textExtensions,
+    batchSize: config.batchSize,
+    maxLinesPerBlob: config.maxLinesPerBlob,
+    excludePatterns: config.excludePatterns,
+    userGuidelines: config.userGuidelines,
+    uploadConcurrency: config.uploadConcurrency,
+    fileLimits: { maxFileSizeKB: config.maxFileSizeKB, maxLineLength: config.maxLineLength },
+    encodingOverrides: config.encodingOverrides,
+    secretScan: { policy: config.secretPolicy, allowlist: config.secretAllowlist },
+    backend: config.backend,
+    commitRetrieval: { enabled: config.commitRetrieval, depth: config.commitHistoryDepth }
+  };
 }
 
 /**
@@ -129,41 +316,38 @@ function sleep(ms: number): Promise<void> {
  */
 export class IndexManager {
   private projectRoot: string;
-  private baseUrl: string;
-  private token: string;
   private textExtensions: Set<string>;
   private batchSize: number;
   private maxLinesPerBlob: number;
   private excludePatterns: string[];
-  private indexFilePath: string;
-  private httpClient: AxiosInstance;
+  private storage: IndexStorage;
+  private backend: RetrievalBackend;
   private userGuidelines: string;
-
-  constructor(
-    projectRoot: string,
-    baseUrl: string,
-    token: string,
-    textExtensions: Set<string>,
-    batchSize: number,
-    maxLinesPerBlob: number = 800,
-    excludePatterns: string[] = [],
-    userGuidelines: string = ''
-  ) {
+  private uploadConcurrency: number;
+  private fileLimits: FileLimits;
+  private encodingOverrides: EncodingOverrides;
+  private secretScanner: SecretScanner;
+  private commitRetrieval: CommitRetrievalOptions;
+  private commitStorage: CommitHistoryStorage;
+
+  constructor(projectRoot: string, options: IndexManagerOptions) {
     this.projectRoot = projectRoot;
-    this.baseUrl = baseUrl.replace(/\/$/, '');
-    this.token = token;
-    this.textExtensions = textExtensions;
-    this.batchSize = batchSize;
-    this.maxLinesPerBlob = maxLinesPerBlob;
-    this.excludePatterns = excludePatterns;
-    this.userGuidelines = userGuidelines || '';
-    this.indexFilePath = getIndexFilePath(projectRoot);
-
-    this.httpClient = axios.create({
-      timeout: 30000,
-      headers: {
-        Authorization: `Bearer ${this.token}`,
-      },
+    this.textExtensions = options.textExtensions;
+    this.batchSize = options.batchSize;
+    this.maxLinesPerBlob = options.maxLinesPerBlob ?? 800;
+    this.excludePatterns = options.excludePatterns || [];
+    this.userGuidelines = options.userGuidelines || '';
+    this.uploadConcurrency = Math.max(1, Math.floor(options.uploadConcurrency ?? 4) || 1);
+    this.fileLimits = options.fileLimits || DEFAULT_FILE_LIMITS;
+    this.encodingOverrides = new EncodingOverrides(options.encodingOverrides || {});
+    this.secretScanner = new SecretScanner(options.secretScan || DEFAULT_SECRET_SCAN_OPTIONS);
+    this.storage = openIndexStorage(projectRoot);
+    this.commitRetrieval = options.commitRetrieval || DEFAULT_COMMIT_RETRIEVAL;
+    this.commitStorage = new CommitHistoryStorage(projectRoot);
+    this.backend = createRetrievalBackend(options.backend || 'remote', {
+      projectRoot,
+      baseUrl: options.baseUrl,
+      token: options.token
     });
   }
 
@@ -176,47 +360,161 @@ export class IndexManager {
     }
   }
 
+  /**
+   * 报告索引已取消并返回对应结果
+   */
+  private cancelledResult(reporter: IndexProgressReporter | undefined, message: string): IndexResult {
+    sendLog('info', message);
+    this.reportProgress(reporter, {
+      stage: 'cancelled',
+      message,
+      percent: 100
+    });
+    return { status: 'cancelled', message };
+  }
+
+  private logSkippedFiles(skipped: SkippedFile[]): void {
+    for (const file of skipped) {
+      sendLog('info', `Skipped ${file.path} (${file.reason}: ${file.detail})`);
+    }
+  }
+
+  private createEmptyStore(): IndexStore {
+    return {
+      version: INDEX_STORE_VERSION,
+      blob_names: [],
+      file_map: {},
+      file_stats: {},
+      deleted_blobs: [],
+      skipped_files: {},
+      failed_files: {},
+      backend: this.backend.id
+    };
+  }
+
   /**
    * Load index data.
+   * 索引在内存中缓存，只在其他窗口或进程写入后读取新增的记录；为其他后端建立的索引视为空
    */
   private loadIndexStore(): IndexStore {
-    if (!fs.existsSync(this.indexFilePath)) {
-      return { version: 1, blob_names: [], file_map: {} };
-    }
     try {
-      const content = fs.readFileSync(this.indexFilePath, 'utf-8');
-      const parsed = JSON.parse(content);
-      if (Array.isArray(parsed)) {
-        return { version: 1, blob_names: parsed, file_map: {} };
+      const store = this.storage.read();
+      if (!store) {
+        return this.createEmptyStore();
       }
-      if (parsed && Array.isArray(parsed.blob_names)) {
-        return {
-          version: typeof parsed.version === 'number' ? parsed.version : 1,
-          blob_names: parsed.blob_names,
-          file_map: parsed.file_map && typeof parsed.file_map === 'object' ? parsed.file_map : {}
-        };
+      const backend = store.backend || 'remote';
+      if (backend !== this.backend.id) {
+        sendLog('info', `Index was built for the "${backend}" backend, re-indexing for "${this.backend.id}"`);
+        return this.createEmptyStore();
       }
-      return { version: 1, blob_names: [], file_map: {} };
+      return store;
     } catch (error) {
       sendLog('error', `Failed to load index: ${error}`);
-      return { version: 1, blob_names: [], file_map: {} };
+      return this.createEmptyStore();
     }
   }
 
-  private saveIndexStore(store: IndexStore): void {
+  /**
+   * 保存索引，只写入相对 base 变化的文件；其他窗口或进程在此期间的修改会被保留
+   * @param base 本次修改所基于的索引数据
+   */
+  private async saveIndexStore(store: IndexStore, base: IndexStore): Promise<void> {
+    let saved: IndexStore;
     try {
-      const content = JSON.stringify(store, null, 2);
-      fs.writeFileSync(this.indexFilePath, content, 'utf-8');
+      saved = await this.storage.commit(base, store);
     } catch (error) {
       sendLog('error', `Failed to save index: ${error}`);
       throw error;
     }
+    this.compactBackend(saved);
+    indexChangeEmitter.fire({ projectRoot: this.projectRoot });
+  }
+
+  /**
+   * 让后端丢弃已保存的索引和提交历史都不再引用的切片
+   */
+  private compactBackend(store: IndexStore): void {
+    if (!this.backend.compact) {
+      return;
+    }
+    const live = new Set(store.blob_names);
+    for (const commit of this.commitStorage.read()?.commits || []) {
+      commit.blobNames.forEach((name) => live.add(name));
+    }
+    this.backend.compact(live);
   }
 
   public getBlobNames(): string[] {
     return this.loadIndexStore().blob_names;
   }
 
+  /**
+   * 搜索范围内文件的 blob 名称
+   */
+  public getScopedBlobNames(scope: SearchScope): string[] {
+    const matcher = new SearchScopeMatcher(scope);
+    const store = this.loadIndexStore();
+    return Object.keys(store.file_map)
+      .filter((relativePath) => matcher.matches(relativePath))
+      .flatMap((relativePath) => store.file_map[relativePath]);
+  }
+
+  public getDeletedBlobNames(): string[] {
+    return this.loadIndexStore().deleted_blobs;
+  }
+
+  /**
+   * 删除本地索引文件，下次索引时重新上传所有文件
+   */
+  public async clearIndex(): Promise<void> {
+    try {
+      await this.storage.clear();
+      await this.commitStorage.clear();
+    } catch (error) {
+      sendLog('error', `Failed to clear index: ${error}`);
+      throw error;
+    }
+    sendLog('info', `Index cleared: ${this.projectRoot}`);
+    indexChangeEmitter.fire({ projectRoot: this.projectRoot });
+  }
+
+  public getIndexOverview(): IndexOverview {
+    const store = this.loadIndexStore();
+    const files: Record<string, number> = {};
+    for (const [filePath, hashes] of Object.entries(store.file_map)) {
+      files[filePath] = hashes.length;
+    }
+    return {
+      files,
+      failed: store.failed_files,
+      skipped: Object.entries(store.skipped_files).map(([filePath, entry]) => ({
+        path: filePath,
+        reason: entry.reason,
+        detail: entry.detail
+      })),
+      syncedAt: store.synced_at
+    };
+  }
+
+  /**
+   * 列出上传前被替换密钥或因密钥被跳过的文件
+   */
+  public getSecretReport(): SecretReportEntry[] {
+    const store = this.loadIndexStore();
+    const entries: SecretReportEntry[] = [];
+    for (const [filePath, stat] of Object.entries(store.file_stats)) {
+      if (stat.secrets?.length) {
+        entries.push({ path: filePath, action: 'redacted', findings: stat.secrets });
+      }
+    }
+    for (const [filePath, entry] of Object.entries(store.skipped_files)) {
+      if (entry.reason === 'secret' && entry.secrets?.length) {
+        entries.push({ path: filePath, action: 'skipped', findings: entry.secrets });
+      }
+    }
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
   /**
    * 获取当前编辑器的上下文信息（公共接口）
    * @returns 编辑器上下文对象，如果没有活动编辑器则返回 null
@@ -235,11 +533,92 @@ export class IndexManager {
     return [...names];
   }
 
-  private removeFileFromIndex(
+  /**
+   * 根据新的 file_map 生成索引数据，并记录相对上一版本消失的 blob
+   */
+  private buildIndexStore(
+    previous: IndexStore,
+    fileMap: Record<string, string[]>,
+    fileStats: Record<string, FileStat>,
+    skippedFiles: Record<string, SkippedFileEntry> = previous.skipped_files,
+    failedFiles: Record<string, number> = previous.failed_files
+  ): IndexStore {
+    const blobNames = this.collectBlobNames(fileMap);
+    const current = new Set(blobNames);
+    const deleted = new Set(previous.deleted_blobs.filter((hash) => !current.has(hash)));
+    for (const hash of previous.blob_names) {
+      if (!current.has(hash)) {
+        deleted.add(hash);
+      }
+    }
+
+    const stats: Record<string, FileStat> = {};
+    for (const filePath of Object.keys(fileMap)) {
+      if (fileStats[filePath]) {
+        stats[filePath] = fileStats[filePath];
+      }
+    }
+
+    const skipped: Record<string, SkippedFileEntry> = {};
+    for (const [filePath, entry] of Object.entries(skippedFiles)) {
+      if (!fileMap[filePath]) {
+        skipped[filePath] = entry;
+      }
+    }
+
+    return {
+      version: INDEX_STORE_VERSION,
+      blob_names: blobNames,
+      file_map: fileMap,
+      file_stats: stats,
+      deleted_blobs: [...deleted].slice(-MAX_DELETED_BLOBS),
+      skipped_files: skipped,
+      failed_files: failedFiles,
+      synced_at: Date.now(),
+      backend: this.backend.id
+    };
+  }
+
+  private isStatUnchanged(previous: FileStat | undefined, stat: fs.Stats): boolean {
+    return !!previous && previous.mtime === stat.mtimeMs && previous.size === stat.size;
+  }
+
+  /**
+   * 元数据未变化，且上次使用的编码与当前指定的编码一致（修改编码配置后需要重新读取），
+   * 上次替换的密钥也未被加入白名单
+   */
+  private isFileUnchanged(relativePath: string, previous: FileStat | undefined, stat: fs.Stats): boolean {
+    const override = this.encodingOverrides.match(relativePath);
+    return (
+      this.isStatUnchanged(previous, stat) &&
+      (!override || previous?.encoding === override) &&
+      !this.secretScanner.isStale(relativePath, previous?.secrets)
+    );
+  }
+
+  /**
+   * 从 file_map 中移除文件或目录下的所有文件，返回移除的文件数
+   */
+  private removeEntries<T>(
+    fileMap: Record<string, T>,
+    relativePath: string
+  ): number {
+    let removed = 0;
+    const prefix = `${relativePath}/`;
+    for (const key of Object.keys(fileMap)) {
+      if (key === relativePath || key.startsWith(prefix)) {
+        delete fileMap[key];
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async removeFileFromIndex(
     relativePath: string,
     reporter?: IndexProgressReporter,
     reason?: string
-  ): IndexResult {
+  ): Promise<IndexResult> {
     const store = this.loadIndexStore();
     if (!store.file_map[relativePath]) {
       return { status: 'skipped', message: reason || 'File not indexed' };
@@ -247,13 +626,11 @@ export class IndexManager {
 
     const nextFileMap = { ...store.file_map };
     delete nextFileMap[relativePath];
-    const nextStore: IndexStore = {
-      version: 1,
-      blob_names: this.collectBlobNames(nextFileMap),
-      file_map: nextFileMap
-    };
+    const nextFailedFiles = { ...store.failed_files };
+    delete nextFailedFiles[relativePath];
+    const nextStore = this.buildIndexStore(store, nextFileMap, store.file_stats, store.skipped_files, nextFailedFiles);
 
-    this.saveIndexStore(nextStore);
+    await this.saveIndexStore(nextStore, store);
     this.reportProgress(reporter, {
       stage: 'complete',
       message: reason || 'Index updated',
@@ -264,100 +641,120 @@ export class IndexManager {
   }
 
   /**
-   * Split file content into blobs.
+   * 读取待索引的文件，过大、二进制、压缩或自动生成的文件返回跳过原因；
+   * 包含密钥的文件按策略替换密钥或跳过
    */
-  private splitFileContent(filePath: string, content: string): Blob[] {
-    const lines: string[] = [];
-    let start = 0;
-
-    for (let i = 0; i < content.length; i++) {
-      if (content[i] === '\n') {
-        lines.push(content.substring(start, i + 1));
-        start = i + 1;
-      } else if (content[i] === '\r') {
-        if (i + 1 < content.length && content[i + 1] === '\n') {
-          lines.push(content.substring(start, i + 2));
-          start = i + 2;
-          i++;
-        } else {
-          lines.push(content.substring(start, i + 1));
-          start = i + 1;
-        }
-      }
+  private async readIndexableFile(
+    fullPath: string,
+    relativePath: string,
+    stat: fs.Stats,
+    previousEncoding?: string
+  ): Promise<{ content: string; encoding: string; secrets?: SecretFinding[] } | { skipped: SkippedFileEntry }> {
+    const fileStat = { mtime: stat.mtimeMs, size: stat.size };
+    const sizeDetail = checkFileSize(stat.size, this.fileLimits);
+    if (sizeDetail) {
+      return { skipped: { reason: 'too_large', detail: sizeDetail, ...fileStat } };
     }
 
-    if (start < content.length) {
-      lines.push(content.substring(start));
+    const buffer = await fs.promises.readFile(fullPath);
+    if (isBinaryContent(buffer)) {
+      return { skipped: { reason: 'binary', detail: 'contains NUL bytes', ...fileStat } };
     }
 
-    const totalLines = lines.length;
+    const { content, encoding } = decodeBuffer(buffer, this.encodingOverrides.match(relativePath), previousEncoding);
+    const generated = detectGeneratedContent(relativePath, content, this.fileLimits);
+    if (generated) {
+      return { skipped: { ...generated, ...fileStat } };
+    }
 
-    if (totalLines <= this.maxLinesPerBlob) {
-      return [{ path: filePath, content, sourcePath: filePath }];
+    const matches = this.secretScanner.scan(relativePath, content);
+    if (matches.length === 0) {
+      return { content, encoding };
+    }
+    const secrets = toSecretFindings(matches);
+    if (this.secretScanner.policy === 'skip') {
+      return { skipped: { reason: 'secret', detail: describeSecrets(secrets), secrets, ...fileStat } };
     }
+    sendLog('warning', `Redacted ${relativePath} before upload (${describeSecrets(secrets)})`);
+    return { content: redactSecrets(content, matches), encoding, secrets };
+  }
 
-    const blobs: Blob[] = [];
-    const numChunks = Math.ceil(totalLines / this.maxLinesPerBlob);
-
-    for (let chunkIdx = 0; chunkIdx < numChunks; chunkIdx++) {
-      const startLine = chunkIdx * this.maxLinesPerBlob;
-      const endLine = Math.min(startLine + this.maxLinesPerBlob, totalLines);
-      const chunkLines = lines.slice(startLine, endLine);
-      const chunkContent = chunkLines.join('');
-      const chunkPath = `${filePath}#chunk${chunkIdx + 1}of${numChunks}`;
-      blobs.push({ path: chunkPath, content: chunkContent, sourcePath: filePath });
+  /**
+   * Split file content into blobs.
+   * 超过 maxLinesPerBlob 的文件按顶层声明切分，见 chunker.ts
+   */
+  private splitFileContent(filePath: string, content: string): Blob[] {
+    const chunks = chunkContent(filePath, content, this.maxLinesPerBlob);
+
+    if (chunks.length === 1) {
+      return [{ path: filePath, content, startLine: 1, sourcePath: filePath }];
     }
 
-    return blobs;
+    return chunks.map((chunk, chunkIdx) => ({
+      path: `${filePath}#chunk${chunkIdx + 1}of${chunks.length}`,
+      content: chunk.content,
+      startLine: chunk.startLine,
+      sourcePath: filePath
+    }));
   }
 
   /**
-   * 收集所有文本文件
+   * 已读取文件在索引中记录的元数据，切分为多个切片时记录各切片的起始行号
    */
-  private loadGitignore(): IgnoreInstance | null {
-    const gitignorePath = path.join(this.projectRoot, '.gitignore');
-    if (!fs.existsSync(gitignorePath)) {
-      return null;
-    }
+  private buildFileStat(stat: fs.Stats, file: { encoding: string; secrets?: SecretFinding[] }, blobs: Blob[]): FileStat {
+    return {
+      mtime: stat.mtimeMs,
+      size: stat.size,
+      encoding: file.encoding,
+      ...(file.secrets ? { secrets: file.secrets } : {}),
+      ...(blobs.length > 1 ? { chunkLines: blobs.map((blob) => blob.startLine) } : {})
+    };
+  }
 
+  /**
+   * 切片在文件中的起始行号；旧索引未记录时按当前文件内容重新切分
+   * @param chunk 从 1 开始的切片序号
+   */
+  private getChunkStartLine(store: IndexStore, relativePath: string, chunk: number): number | undefined {
+    const fileStat = store.file_stats[relativePath];
+    if (!fileStat || !store.file_map[relativePath]) {
+      return undefined;
+    }
+    if (fileStat.chunkLines) {
+      return fileStat.chunkLines[chunk - 1];
+    }
     try {
-      const content = fs.readFileSync(gitignorePath, 'utf-8');
-      const patterns = content.split('\n');
-      return ignore().add(patterns);
+      const buffer = fs.readFileSync(path.join(this.projectRoot, relativePath));
+      const { content } = decodeBuffer(buffer, this.encodingOverrides.match(relativePath), fileStat.encoding);
+      return chunkContent(relativePath, content, this.maxLinesPerBlob)[chunk - 1]?.startLine;
     } catch {
-      return null;
+      return undefined;
     }
   }
 
+  /**
+   * 加载项目内所有 .gitignore 和 .aceignore 规则
+   */
+  private loadIgnoreRules(): IgnoreRules {
+    return new IgnoreRules(this.projectRoot);
+  }
+
   private shouldExclude(
     filePath: string,
-    gitignoreSpec: IgnoreInstance | null
+    ignoreRules: IgnoreRules | null
   ): boolean {
     try {
       const relativePath = path.relative(this.projectRoot, filePath);
       const pathStr = relativePath.replace(/\\/g, '/');
 
-      if (gitignoreSpec) {
-        const isDir = fs.statSync(filePath).isDirectory();
-        const testPath = isDir ? pathStr + '/' : pathStr;
-        if (gitignoreSpec.ignores(testPath)) {
-          return true;
-        }
-      }
-
-      const pathParts = pathStr.split('/');
-      for (const pattern of this.excludePatterns) {
-        for (const part of pathParts) {
-          if (this.matchPattern(part, pattern)) {
-            return true;
-          }
-        }
-        if (this.matchPattern(pathStr, pattern)) {
+      if (ignoreRules) {
+        const isDir = fs.existsSync(filePath) && fs.statSync(filePath).isDirectory();
+        if (ignoreRules.ignores(pathStr, isDir)) {
           return true;
         }
       }
 
-      return false;
+      return matchesExcludePatterns(pathStr, this.excludePatterns);
     } catch {
       return false;
     }
@@ -371,28 +768,37 @@ export class IndexManager {
     return relativePath;
   }
 
-  private matchPattern(str: string, pattern: string): boolean {
-    const regexPattern = pattern.replace(/\*/g, '.*').replace(/\?/g, '.');
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(str);
-  }
-
-  private async collectFiles(): Promise<Blob[]> {
+  /**
+   * 收集所有文本文件（默认从项目根目录开始）
+   * 与 store 中记录的 mtime、size 一致的文件不读取内容，直接沿用已有哈希
+   * @param force 忽略上次的元数据和跳过记录，重新读取所有文件
+   */
+  private async collectFiles(
+    store: IndexStore,
+    startDir: string = this.projectRoot,
+    token?: vscode.CancellationToken,
+    force: boolean = false
+  ): Promise<CollectResult> {
     const blobs: Blob[] = [];
-    const gitignoreSpec = this.loadGitignore();
+    const unchangedFiles: Record<string, string[]> = {};
+    const fileStats: Record<string, FileStat> = {};
+    const skippedFiles: Record<string, SkippedFileEntry> = {};
+    const existingBlobNames = new Set(store.blob_names);
+    const ignoreRules = this.loadIgnoreRules();
 
     const walkDir = async (dirPath: string): Promise<void> => {
       const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
 
       for (const entry of entries) {
+        throwIfCancelled(token);
         const fullPath = path.join(dirPath, entry.name);
 
         if (entry.isDirectory()) {
-          if (!this.shouldExclude(fullPath, gitignoreSpec)) {
+          if (!this.shouldExclude(fullPath, ignoreRules)) {
             await walkDir(fullPath);
           }
         } else if (entry.isFile()) {
-          if (this.shouldExclude(fullPath, gitignoreSpec)) {
+          if (this.shouldExclude(fullPath, ignoreRules)) {
             continue;
           }
 
@@ -407,8 +813,45 @@ export class IndexManager {
               continue;
             }
 
-            const content = await readFileWithEncoding(fullPath);
-            const fileBlobs = this.splitFileContent(relativePath, content);
+            const stat = await fs.promises.stat(fullPath);
+
+            const previousHashes = store.file_map[relativePath];
+            if (
+              !force &&
+              previousHashes &&
+              this.isFileUnchanged(relativePath, store.file_stats[relativePath], stat) &&
+              previousHashes.every((hash) => existingBlobNames.has(hash))
+            ) {
+              fileStats[relativePath] = store.file_stats[relativePath];
+              unchangedFiles[relativePath] = previousHashes;
+              continue;
+            }
+
+            // 因内容被跳过且未变化的文件不再重复读取
+            const previousSkip = store.skipped_files[relativePath];
+            if (
+              !force &&
+              previousSkip &&
+              CONTENT_SKIP_REASONS.has(previousSkip.reason) &&
+              this.isStatUnchanged(previousSkip, stat)
+            ) {
+              skippedFiles[relativePath] = previousSkip;
+              continue;
+            }
+
+            const file = await this.readIndexableFile(
+              fullPath,
+              relativePath,
+              stat,
+              store.file_stats[relativePath]?.encoding
+            );
+            if ('skipped' in file) {
+              skippedFiles[relativePath] = file.skipped;
+              continue;
+            }
+
+            const fileBlobs = this.splitFileContent(relativePath, file.content);
+            fileStats[relativePath] = this.buildFileStat(stat, file, fileBlobs);
             blobs.push(...fileBlobs);
           } catch (error) {
             // 静默处理读取失败
@@ -417,76 +860,77 @@ export class IndexManager {
       }
     };
 
-    await walkDir(this.projectRoot);
-    return blobs;
+    await walkDir(startDir);
+    return { blobs, unchangedFiles, fileStats, skippedFiles };
   }
 
   /**
-   * 使用指数退避策略重试请求
+   * 并发上传 blob 批次，校验每批返回的哈希并统计失败批次
+   * 取消后不再发送新批次，进行中的请求被中止，已成功的批次仍会返回
+   * @param progressRange 上传阶段占用的进度百分比区间
    */
-  private async retryRequest<T>(
-    fn: () => Promise<T>,
-    maxRetries: number = 3,
-    retryDelay: number = 1000
-  ): Promise<T> {
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await fn();
-      } catch (error: unknown) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const axiosError = error as { code?: string; response?: { status: number; data?: unknown } };
-
-        // Token 失效检测 - 不重试，直接抛出友好错误
-        if (axiosError.response?.status === 401) {
-          sendLog('error', '🔑 Token 已失效或无效，请检查配置');
-          throw new Error('Token 已失效或无效，请在 VSCode 设置中更新 token');
-        }
+  private async uploadBlobs(
+    blobs: Blob[],
+    hashes: string[],
+    reporter: IndexProgressReporter | undefined,
+    progressRange: [number, number],
+    token?: vscode.CancellationToken
+  ): Promise<{ uploadedBlobNames: string[]; failedBatches: number[] }> {
+    const totalBatches = Math.ceil(blobs.length / this.batchSize);
+    const batchResults: string[][] = Array.from({ length: totalBatches }, () => []);
+    const failedBatches: number[] = [];
+    let completedBatches = 0;
+
+    const uploadBatch = async (batchIdx: number): Promise<void> => {
+      const startIdx = batchIdx * this.batchSize;
+      const endIdx = Math.min(startIdx + this.batchSize, blobs.length);
+      const batchBlobs = blobs.slice(startIdx, endIdx);
+      const expectedBatchNames = hashes.slice(startIdx, endIdx);
 
-        // 权限被拒绝 - 可能被官方制裁
-        if (axiosError.response?.status === 403) {
-          sendLog('error', '🚫 访问被拒绝，Token 可能已被禁用');
-          throw new Error('访问被拒绝，Token 可能已被官方禁用，请联系服务提供商');
+      try {
+        const batchBlobNames = await this.backend.uploadBlobs(batchBlobs, token);
+        if (batchBlobNames.length === 0) {
+          failedBatches.push(batchIdx + 1);
+          return;
         }
 
-        // SSL 证书错误检测 - 不重试
-        if (axiosError.code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE' ||
-            axiosError.code === 'CERT_HAS_EXPIRED' ||
-            axiosError.code === 'ERR_TLS_CERT_ALTNAME_INVALID' ||
-            lastError.message.includes('certificate') ||
-            lastError.message.includes('altnames')) {
-          sendLog('error', '🔐 SSL 证书验证失败，请检查 baseUrl 配置是否正确');
-          throw new Error('SSL 证书验证失败，请检查 baseUrl 配置是否正确，或联系服务提供商');
+        const expectedSet = new Set(expectedBatchNames);
+        const returnedSet = new Set(batchBlobNames);
+        if (expectedSet.size !== returnedSet.size) {
+          throw new Error('Blob hash mismatch between local and server');
         }
-
-        const isRetryable =
-          axiosError.code === 'ECONNREFUSED' ||
-          axiosError.code === 'ETIMEDOUT' ||
-          axiosError.code === 'ENOTFOUND' ||
-          (axiosError.response && axiosError.response.status >= 500);
-
-        if (!isRetryable || attempt === maxRetries - 1) {
-          // 提供更友好的网络错误提示
-          let friendlyMessage = lastError.message;
-          if (axiosError.code === 'ECONNREFUSED') {
-            friendlyMessage = '无法连接到服务器，请检查网络或服务地址';
-          } else if (axiosError.code === 'ETIMEDOUT') {
-            friendlyMessage = '连接超时，请检查网络状况';
-          } else if (axiosError.code === 'ENOTFOUND') {
-            friendlyMessage = '无法解析服务器地址，请检查 baseUrl 配置';
+        for (const hash of expectedSet) {
+          if (!returnedSet.has(hash)) {
+            throw new Error('Blob hash mismatch between local and server');
           }
-          sendLog('error', `❌ 请求失败 (${attempt + 1}次尝试): ${friendlyMessage}`);
-          throw new Error(friendlyMessage);
         }
 
-        const waitTime = retryDelay * Math.pow(2, attempt);
-        sendLog('warning', `⚠️ 请求失败 (${attempt + 1}/${maxRetries})，${waitTime}ms 后重试...`);
-        await sleep(waitTime);
+        batchResults[batchIdx] = batchBlobNames;
+      } catch (error: unknown) {
+        if (isCancellationError(error)) {
+          return;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        sendLog('error', `Batch ${batchIdx + 1} upload failed: ${errorMessage}`);
+        failedBatches.push(batchIdx + 1);
+      } finally {
+        completedBatches++;
+        const [startPercent, endPercent] = progressRange;
+        this.reportProgress(reporter, {
+          stage: 'uploading',
+          message: `Uploading blobs (${completedBatches}/${totalBatches} batches)...`,
+          percent: Math.round(startPercent + ((endPercent - startPercent) * completedBatches) / totalBatches)
+        });
       }
-    }
+    };
+
+    await runWithConcurrency(totalBatches, this.uploadConcurrency, uploadBatch, token);
 
-    throw lastError || new Error('All retries failed');
+    return {
+      // 按批次顺序合并，保证结果与并发完成顺序无关
+      uploadedBlobNames: batchResults.flat(),
+      failedBatches: failedBatches.sort((a, b) => a - b)
+    };
   }
 
   async indexFile(filePath: string, reporter?: IndexProgressReporter): Promise<IndexResult> {
@@ -495,8 +939,8 @@ export class IndexManager {
       return { status: 'skipped', message: 'File is outside project root' };
     }
 
-    const gitignoreSpec = this.loadGitignore();
-    if (this.shouldExclude(filePath, gitignoreSpec)) {
+    const ignoreRules = this.loadIgnoreRules();
+    if (this.shouldExclude(filePath, ignoreRules)) {
       return this.removeFileFromIndex(relativePath, reporter, 'File excluded from index');
     }
 
@@ -509,14 +953,24 @@ export class IndexManager {
       return this.removeFileFromIndex(relativePath, reporter, 'File not found');
     }
 
+    const stat = fs.statSync(filePath);
+    const store = this.loadIndexStore();
+    if (store.file_map[relativePath] && this.isFileUnchanged(relativePath, store.file_stats[relativePath], stat)) {
+      return { status: 'success', message: 'No changes detected' };
+    }
+
     this.reportProgress(reporter, {
       stage: 'hashing',
       message: 'Indexing file...',
       percent: 20
     });
 
-    const content = await readFileWithEncoding(filePath);
-    const fileBlobs = this.splitFileContent(relativePath, content);
+    const file = await this.readIndexableFile(filePath, relativePath, stat, store.file_stats[relativePath]?.encoding);
+    if ('skipped' in file) {
+      return this.removeFileFromIndex(relativePath, reporter, `File skipped (${file.skipped.reason}: ${file.skipped.detail})`);
+    }
+    const fileBlobs = this.splitFileContent(relativePath, file.content);
+    const nextFileStats = { ...store.file_stats, [relativePath]: this.buildFileStat(stat, file, fileBlobs) };
 
     const blobHashMap = new Map<string, Blob>();
     const nextHashes: string[] = [];
@@ -526,13 +980,14 @@ export class IndexManager {
       nextHashes.push(blobHash);
     }
 
-    const store = this.loadIndexStore();
     const previousHashes = store.file_map[relativePath] || [];
     const isSame =
       previousHashes.length === nextHashes.length &&
       previousHashes.every((hash, idx) => hash === nextHashes[idx]);
 
     if (isSame) {
+      // 内容未变但元数据变化（例如仅 touch），更新元数据以便下次跳过读取
+      await this.saveIndexStore(this.buildIndexStore(store, store.file_map, nextFileStats), store);
       return { status: 'success', message: 'No changes detected' };
     }
 
@@ -547,45 +1002,7 @@ export class IndexManager {
         percent: 50
       });
 
-      const totalBatches = Math.ceil(blobsToUpload.length / this.batchSize);
-      const failedBatches: number[] = [];
-
-      for (let batchIdx = 0; batchIdx < totalBatches; batchIdx++) {
-        const startIdx = batchIdx * this.batchSize;
-        const endIdx = Math.min(startIdx + this.batchSize, blobsToUpload.length);
-        const batchBlobs = blobsToUpload.slice(startIdx, endIdx);
-        const expectedBatchNames = hashesToUpload.slice(startIdx, endIdx);
-
-        try {
-          const result = await this.retryRequest(async () => {
-            const response = await this.httpClient.post(`${this.baseUrl}/batch-upload`, {
-              blobs: batchBlobs,
-            });
-            return response.data;
-          });
-
-          const batchBlobNames = result.blob_names || [];
-          if (batchBlobNames.length === 0) {
-            failedBatches.push(batchIdx + 1);
-            continue;
-          }
-
-          const expectedSet = new Set(expectedBatchNames);
-          const returnedSet = new Set(batchBlobNames);
-          if (expectedSet.size !== returnedSet.size) {
-            throw new Error('Blob hash mismatch between local and server');
-          }
-          for (const hash of expectedSet) {
-            if (!returnedSet.has(hash)) {
-              throw new Error('Blob hash mismatch between local and server');
-            }
-          }
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          sendLog('error', `Batch ${batchIdx + 1} upload failed: ${errorMessage}`);
-          failedBatches.push(batchIdx + 1);
-        }
-      }
+      const { failedBatches } = await this.uploadBlobs(blobsToUpload, hashesToUpload, reporter, [50, 90]);
 
       if (failedBatches.length > 0) {
         this.reportProgress(reporter, {
@@ -598,12 +1015,10 @@ export class IndexManager {
     }
 
     const nextFileMap = { ...store.file_map, [relativePath]: nextHashes };
-    const nextStore: IndexStore = {
-      version: 1,
-      blob_names: this.collectBlobNames(nextFileMap),
-      file_map: nextFileMap
-    };
-    this.saveIndexStore(nextStore);
+    const nextFailedFiles = { ...store.failed_files };
+    delete nextFailedFiles[relativePath];
+    const nextStore = this.buildIndexStore(store, nextFileMap, nextFileStats, store.skipped_files, nextFailedFiles);
+    await this.saveIndexStore(nextStore, store);
 
     this.reportProgress(reporter, {
       stage: 'complete',
@@ -615,34 +1030,270 @@ export class IndexManager {
   }
 
   /**
-   * 对项目进行索引（支持增量索引）
+   * 批量同步一组文件或目录（新增、修改、删除、重命名），只读写一次索引文件
+   * 不存在或被排除的路径会从索引中移除，目录会递归收集其中的文件
+   * 收集阶段取消时不修改索引；上传阶段取消时只保存已上传完成的文件
+   * @param force 忽略上次的元数据和跳过记录，重新读取所有文件
    */
-  async indexProject(reporter?: IndexProgressReporter): Promise<IndexResult> {
-    sendLog('info', `Indexing project: ${this.projectRoot}`);
+  async indexFiles(
+    filePaths: string[],
+    reporter?: IndexProgressReporter,
+    token?: vscode.CancellationToken,
+    force: boolean = false
+  ): Promise<IndexResult> {
+    const store = this.loadIndexStore();
+    const ignoreRules = this.loadIgnoreRules();
+    const nextFileMap: Record<string, string[]> = { ...store.file_map };
+    const nextFileStats: Record<string, FileStat> = { ...store.file_stats };
+    const nextSkippedFiles: Record<string, SkippedFileEntry> = { ...store.skipped_files };
+    const nextFailedFiles: Record<string, number> = { ...store.failed_files };
+    const skipped: SkippedFile[] = [];
+    const blobs: Blob[] = [];
+    let removedFiles = 0;
+
+    // 记录被跳过的文件，已在索引中的旧内容一并移除
+    const markSkipped = (relativePath: string, entry: SkippedFileEntry): void => {
+      removedFiles += this.removeEntries(nextFileMap, relativePath);
+      delete nextFailedFiles[relativePath];
+      nextSkippedFiles[relativePath] = entry;
+      skipped.push({ path: relativePath, reason: entry.reason, detail: entry.detail });
+    };
+
+    this.reportProgress(reporter, {
+      stage: 'hashing',
+      message: `Syncing ${filePaths.length} changed paths...`,
+      percent: 20
+    });
 
     try {
+      for (const filePath of new Set(filePaths)) {
+        throwIfCancelled(token);
+        const relativePath = this.toRelativePath(filePath);
+        if (!relativePath) {
+          continue;
+        }
 
-      const blobs = await this.collectFiles();
+        let stat: fs.Stats | null = null;
+        try {
+          stat = await fs.promises.stat(filePath);
+        } catch {
+          stat = null;
+        }
 
-      if (blobs.length === 0) {
-        this.reportProgress(reporter, {
-          stage: 'error',
-          message: 'No text files found in project',
-          percent: 100
-        });
-        return { status: 'error', message: 'No text files found in project' };
-      }
+        const excluded = this.shouldExclude(filePath, ignoreRules);
+        if (stat && stat.isDirectory() && !excluded) {
+          const collected = await this.collectFiles(store, filePath, token, force);
+          blobs.push(...collected.blobs);
+          Object.assign(nextFileStats, collected.fileStats);
+          this.removeEntries(nextSkippedFiles, relativePath);
+          for (const [skippedPath, entry] of Object.entries(collected.skippedFiles)) {
+            markSkipped(skippedPath, entry);
+          }
+          continue;
+        }
 
-      this.reportProgress(reporter, {
-        stage: 'hashing',
-        message: 'Computing hashes...',
-        percent: 25
-      });
+        const ext = path.extname(filePath).toLowerCase();
+        if (!stat || !stat.isFile() || excluded || !this.textExtensions.has(ext)) {
+          removedFiles += this.removeEntries(nextFileMap, relativePath);
+          this.removeEntries(nextSkippedFiles, relativePath);
+          this.removeEntries(nextFailedFiles, relativePath);
+          continue;
+        }
 
-      const store = this.loadIndexStore();
-      const existingBlobNames = new Set(store.blob_names);
+        if (
+          !force &&
+          nextFileMap[relativePath] &&
+          this.isFileUnchanged(relativePath, store.file_stats[relativePath], stat)
+        ) {
+          continue;
+        }
+
+        try {
+          const file = await this.readIndexableFile(
+            filePath,
+            relativePath,
+            stat,
+            store.file_stats[relativePath]?.encoding
+          );
+          if ('skipped' in file) {
+            markSkipped(relativePath, file.skipped);
+            continue;
+          }
+          delete nextSkippedFiles[relativePath];
+          const fileBlobs = this.splitFileContent(relativePath, file.content);
+          blobs.push(...fileBlobs);
+          nextFileStats[relativePath] = this.buildFileStat(stat, file, fileBlobs);
+        } catch (error) {
+          sendLog('warning', `Failed to read ${relativePath}: ${error}`);
+        }
+      }
+    } catch (error: unknown) {
+      if (isCancellationError(error)) {
+        return this.cancelledResult(reporter, 'Sync cancelled');
+      }
+      throw error;
+    }
+
+    const existingBlobNames = new Set(store.blob_names);
+    const blobHashMap = new Map<string, Blob>();
+    const changedFiles: Record<string, string[]> = {};
+    for (const blob of blobs) {
+      const blobHash = calculateBlobName(blob.path, blob.content);
+      blobHashMap.set(blobHash, blob);
+      if (!changedFiles[blob.sourcePath]) {
+        changedFiles[blob.sourcePath] = [];
+      }
+      changedFiles[blob.sourcePath].push(blobHash);
+    }
+
+    const newHashes = [...blobHashMap.keys()].filter((hash) => !existingBlobNames.has(hash));
+    const blobsToUpload = newHashes.map((hash) => blobHashMap.get(hash)!);
+
+    this.reportProgress(reporter, {
+      stage: 'uploading',
+      message: `Uploading ${blobsToUpload.length} new blobs...`,
+      percent: 50
+    });
+
+    const { uploadedBlobNames, failedBatches } = await this.uploadBlobs(
+      blobsToUpload,
+      newHashes,
+      reporter,
+      [50, 90],
+      token
+    );
+
+    const availableBlobNames = new Set<string>([...existingBlobNames, ...uploadedBlobNames]);
+    const cancelled = token?.isCancellationRequested === true;
+    let updatedFiles = 0;
+    for (const [relativePath, hashes] of Object.entries(changedFiles)) {
+      if (hashes.every((hash) => availableBlobNames.has(hash))) {
+        nextFileMap[relativePath] = hashes;
+        delete nextFailedFiles[relativePath];
+        updatedFiles++;
+      } else {
+        // 上传失败的文件保留旧索引，清除元数据以便下次重试
+        delete nextFileStats[relativePath];
+        if (!cancelled) {
+          nextFailedFiles[relativePath] = Date.now();
+        }
+      }
+    }
+
+    this.reportProgress(reporter, {
+      stage: 'saving',
+      message: 'Saving index...',
+      percent: 90
+    });
+
+    // 变更的路径都未影响索引（例如内容未变的文件）时不写入，避免触发索引变化事件
+    const nextStore = this.buildIndexStore(store, nextFileMap, nextFileStats, nextSkippedFiles, nextFailedFiles);
+    if (hasStoreChanges(store, nextStore)) {
+      await this.saveIndexStore(nextStore, store);
+    }
+
+    let message = `Synced ${updatedFiles} files, removed ${removedFiles} files`;
+    if (skipped.length > 0) {
+      message += `, skipped ${skipped.length} files`;
+      this.logSkippedFiles(skipped);
+    }
+    if (cancelled) {
+      return this.cancelledResult(reporter, `Sync cancelled (${message})`);
+    }
+    this.reportProgress(reporter, {
+      stage: failedBatches.length === 0 ? 'complete' : 'error',
+      message: failedBatches.length === 0 ? message : `${message} (${failedBatches.length} batches failed)`,
+      percent: 100
+    });
+
+    return {
+      status: failedBatches.length === 0 ? 'success' : 'partial_success',
+      message,
+      skipped
+    };
+  }
+
+  /**
+   * 试运行：收集文件并计算哈希，返回需要上传的内容，不上传也不修改索引
+   */
+  async previewIndex(token?: vscode.CancellationToken): Promise<IndexPreview> {
+    const store = this.loadIndexStore();
+    const { blobs, unchangedFiles, skippedFiles } = await this.collectFiles(store, this.projectRoot, token);
+    const existingBlobNames = new Set(store.blob_names);
+
+    const files = new Map<string, { path: string; chunks: number; bytes: number }>();
+    const changedFiles = new Set<string>();
+    for (const blob of blobs) {
+      changedFiles.add(blob.sourcePath);
+      if (existingBlobNames.has(calculateBlobName(blob.path, blob.content))) {
+        continue;
+      }
+      let file = files.get(blob.sourcePath);
+      if (!file) {
+        file = { path: blob.sourcePath, chunks: 0, bytes: 0 };
+        files.set(blob.sourcePath, file);
+      }
+      file.chunks++;
+      file.bytes += Buffer.byteLength(blob.content, 'utf8');
+    }
+
+    return {
+      files: [...files.values()].sort((a, b) => a.path.localeCompare(b.path)),
+      unchangedFiles: Object.keys(unchangedFiles).length + changedFiles.size - files.size,
+      skipped: Object.entries(skippedFiles).map(([filePath, entry]) => ({
+        path: filePath,
+        reason: entry.reason,
+        detail: entry.detail
+      }))
+    };
+  }
+
+  /**
+   * 对项目进行索引（支持增量索引）
+   * 收集阶段取消时不修改索引；上传阶段取消时保存已上传完成的文件，其余文件保留上次的索引
+   * @param confirmFirstIndex 本地索引为空时是否先经过首次索引确认（用户已确认的重建传 false）
+   */
+  async indexProject(
+    reporter?: IndexProgressReporter,
+    token?: vscode.CancellationToken,
+    confirmFirstIndex: boolean = true
+  ): Promise<IndexResult> {
+    sendLog('info', `Indexing project: ${this.projectRoot}`);
+
+    try {
+      const store = this.loadIndexStore();
+      if (confirmFirstIndex && firstIndexGuard && store.blob_names.length === 0) {
+        const confirmed = await firstIndexGuard(this.projectRoot, this, token);
+        throwIfCancelled(token);
+        if (!confirmed) {
+          return this.cancelledResult(reporter, 'Indexing cancelled: upload not confirmed');
+        }
+      }
+      const { blobs, unchangedFiles, fileStats, skippedFiles } = await this.collectFiles(store, this.projectRoot, token);
+      const skipped = Object.entries(skippedFiles).map(([filePath, entry]) => ({
+        path: filePath,
+        reason: entry.reason,
+        detail: entry.detail
+      }));
+
+      if (blobs.length === 0 && Object.keys(unchangedFiles).length === 0) {
+        this.reportProgress(reporter, {
+          stage: 'error',
+          message: 'No text files found in project',
+          percent: 100
+        });
+        return { status: 'error', message: 'No text files found in project', skipped };
+      }
+
+      this.reportProgress(reporter, {
+        stage: 'hashing',
+        message: 'Computing hashes...',
+        percent: 25
+      });
+
+      const existingBlobNames = new Set(store.blob_names);
       const blobHashMap = new Map<string, Blob>();
-      const nextFileMap: Record<string, string[]> = {};
+      const nextFileMap: Record<string, string[]> = { ...unchangedFiles };
 
       for (const blob of blobs) {
         const blobHash = calculateBlobName(blob.path, blob.content);
@@ -653,12 +1304,13 @@ export class IndexManager {
         nextFileMap[blob.sourcePath].push(blobHash);
       }
 
-      const allBlobHashes = new Set(blobHashMap.keys());
+      const allBlobHashes = new Set([...blobHashMap.keys(), ...this.collectBlobNames(unchangedFiles)]);
       const existingHashes = new Set(
         [...allBlobHashes].filter((hash) => existingBlobNames.has(hash))
       );
-      const newHashes = [...allBlobHashes].filter((hash) => !existingBlobNames.has(hash));
+      const newHashes = [...blobHashMap.keys()].filter((hash) => !existingBlobNames.has(hash));
       const blobsToUpload = newHashes.map((hash) => blobHashMap.get(hash)!);
+      throwIfCancelled(token);
 
       this.reportProgress(reporter, {
         stage: 'uploading',
@@ -666,51 +1318,20 @@ export class IndexManager {
         percent: 50
       });
 
-      const uploadedBlobNames: string[] = [];
-      const failedBatches: number[] = [];
-
-      if (blobsToUpload.length > 0) {
-        const totalBatches = Math.ceil(blobsToUpload.length / this.batchSize);
-
-        for (let batchIdx = 0; batchIdx < totalBatches; batchIdx++) {
-          const startIdx = batchIdx * this.batchSize;
-          const endIdx = Math.min(startIdx + this.batchSize, blobsToUpload.length);
-          const batchBlobs = blobsToUpload.slice(startIdx, endIdx);
-          const expectedBatchNames = newHashes.slice(startIdx, endIdx);
-
-          try {
-            const result = await this.retryRequest(async () => {
-              const response = await this.httpClient.post(`${this.baseUrl}/batch-upload`, {
-                blobs: batchBlobs,
-              });
-              return response.data;
-            });
-
-            const batchBlobNames = result.blob_names || [];
-            if (batchBlobNames.length === 0) {
-              failedBatches.push(batchIdx + 1);
-              continue;
-            }
-
-            const expectedSet = new Set(expectedBatchNames);
-            const returnedSet = new Set(batchBlobNames);
-            if (expectedSet.size !== returnedSet.size) {
-              throw new Error('Blob hash mismatch between local and server');
-            }
-            for (const hash of expectedSet) {
-              if (!returnedSet.has(hash)) {
-                throw new Error('Blob hash mismatch between local and server');
-              }
-            }
+      const { uploadedBlobNames, failedBatches } = await this.uploadBlobs(
+        blobsToUpload,
+        newHashes,
+        reporter,
+        [50, 90],
+        token
+      );
 
-            uploadedBlobNames.push(...batchBlobNames);
-          } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            sendLog('error', `Batch ${batchIdx + 1} upload failed: ${errorMessage}`);
-            failedBatches.push(batchIdx + 1);
-          }
-        }
+      const cancelled = token?.isCancellationRequested === true;
+      if (cancelled && uploadedBlobNames.length === 0) {
+        return this.cancelledResult(reporter, 'Indexing cancelled');
+      }
 
+      if (blobsToUpload.length > 0) {
         if (uploadedBlobNames.length === 0 && existingHashes.size === 0) {
           this.reportProgress(reporter, {
             stage: 'error',
@@ -723,12 +1344,32 @@ export class IndexManager {
 
       const availableBlobNames = new Set<string>([...existingHashes, ...uploadedBlobNames]);
       const filteredFileMap: Record<string, string[]> = {};
+      const completeFileStats: Record<string, FileStat> = {};
+      const failedFiles: Record<string, number> = {};
 
       for (const filePath of Object.keys(nextFileMap)) {
         const hashes = nextFileMap[filePath].filter((hash) => availableBlobNames.has(hash));
+        const complete = hashes.length === nextFileMap[filePath].length;
+        if (cancelled && !complete) {
+          // 取消时未上传完成的文件保留上次的索引和失败记录，下次继续处理
+          if (store.file_map[filePath]) {
+            filteredFileMap[filePath] = store.file_map[filePath];
+          }
+          if (store.failed_files[filePath]) {
+            failedFiles[filePath] = store.failed_files[filePath];
+          }
+          continue;
+        }
         if (hashes.length > 0) {
           filteredFileMap[filePath] = hashes;
         }
+        // 只有全部切片上传成功的文件才记录元数据，否则下次需要重新处理
+        if (complete && fileStats[filePath]) {
+          completeFileStats[filePath] = fileStats[filePath];
+        }
+        if (!complete) {
+          failedFiles[filePath] = Date.now();
+        }
       }
 
       this.reportProgress(reporter, {
@@ -737,12 +1378,12 @@ export class IndexManager {
         percent: 90
       });
 
-      const nextStore: IndexStore = {
-        version: 1,
-        blob_names: [...availableBlobNames],
-        file_map: filteredFileMap
-      };
-      this.saveIndexStore(nextStore);
+      const nextStore = this.buildIndexStore(store, filteredFileMap, completeFileStats, skippedFiles, failedFiles);
+      await this.saveIndexStore(nextStore, store);
+
+      if (cancelled) {
+        return this.cancelledResult(reporter, `Indexing cancelled (${uploadedBlobNames.length} new blobs saved)`);
+      }
 
       this.reportProgress(reporter, {
         stage: 'complete',
@@ -750,7 +1391,11 @@ export class IndexManager {
         percent: 100
       });
 
-      const message = `Indexed ${availableBlobNames.size} blobs (existing: ${existingHashes.size}, new: ${uploadedBlobNames.length})`;
+      let message = `Indexed ${availableBlobNames.size} blobs (existing: ${existingHashes.size}, new: ${uploadedBlobNames.length})`;
+      if (skipped.length > 0) {
+        message += `, skipped ${skipped.length} files`;
+        this.logSkippedFiles(skipped);
+      }
 
       return {
         status: failedBatches.length === 0 ? 'success' : 'partial_success',
@@ -760,8 +1405,12 @@ export class IndexManager {
           existing_blobs: existingHashes.size,
           new_blobs: uploadedBlobNames.length,
         },
+        skipped,
       };
     } catch (error: unknown) {
+      if (isCancellationError(error)) {
+        return this.cancelledResult(reporter, 'Indexing cancelled');
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.reportProgress(reporter, {
         stage: 'error',
@@ -773,16 +1422,93 @@ export class IndexManager {
     }
   }
 
+  /**
+   * 重新读取磁盘上的所有文件，与索引中的 file_map 比较，不修改索引
+   */
+  async verifyIndex(token?: vscode.CancellationToken): Promise<IndexVerifyReport> {
+    const store = this.loadIndexStore();
+    const { blobs } = await this.collectFiles(store, this.projectRoot, token, true);
+
+    const diskFiles: Record<string, string[]> = {};
+    for (const blob of blobs) {
+      if (!diskFiles[blob.sourcePath]) {
+        diskFiles[blob.sourcePath] = [];
+      }
+      diskFiles[blob.sourcePath].push(calculateBlobName(blob.path, blob.content));
+    }
+
+    const missing: string[] = [];
+    const stale: string[] = [];
+    for (const [filePath, hashes] of Object.entries(diskFiles)) {
+      const indexed = store.file_map[filePath];
+      if (!indexed) {
+        missing.push(filePath);
+      } else if (indexed.length !== hashes.length || indexed.some((hash, idx) => hash !== hashes[idx])) {
+        stale.push(filePath);
+      }
+    }
+    // 已删除、被忽略或现在应被跳过的文件不会出现在 diskFiles 中
+    const orphaned = Object.keys(store.file_map).filter((filePath) => !diskFiles[filePath]);
+
+    return {
+      missing: missing.sort(),
+      stale: stale.sort(),
+      orphaned: orphaned.sort(),
+      checkedFiles: Object.keys(diskFiles).length
+    };
+  }
+
+  /**
+   * 索引为空时先建立索引。注册了任务队列时在队列中执行，保证同一时间只有一个完整索引；
+   * 取消只结束等待，不取消队列中的索引
+   */
+  private async indexBeforeSearch(
+    reporter?: IndexProgressReporter,
+    token?: vscode.CancellationToken
+  ): Promise<IndexResult> {
+    const scheduler = indexScheduler;
+    if (!scheduler) {
+      return this.indexProject(reporter, token);
+    }
+
+    this.reportProgress(reporter, {
+      stage: 'scanning',
+      message: 'Waiting for the index job...',
+      percent: 0
+    });
+    const result = await new Promise<IndexResult | null>((resolve, reject) => {
+      const listener = token?.onCancellationRequested(() => {
+        listener?.dispose();
+        reject(new vscode.CancellationError());
+      });
+      scheduler(this.projectRoot).then(
+        (value) => {
+          listener?.dispose();
+          resolve(value);
+        },
+        (error) => {
+          listener?.dispose();
+          reject(error);
+        }
+      );
+    });
+    return result || { status: 'error', message: 'The index job could not run' };
+  }
+
   /**
    * 仅执行提示词增强（不进行代码搜索）
    */
   async enhancePrompt(query: string, options: SearchOptions = {}): Promise<string> {
-    const reporter = options.reporter;
+    const { reporter, token } = options;
 
     try {
       let blobNames = this.getBlobNames();
       if (blobNames.length === 0) {
-        const indexResult = await this.indexProject(reporter);
+        const indexResult = await this.indexBeforeSearch(reporter, token);
+        throwIfCancelled(token);
+        if (indexResult.status === 'cancelled') {
+          throw new vscode.CancellationError();
+        }
         if (indexResult.status === 'error') {
           sendLog('error', `Index failed: ${indexResult.message}`);
           throw new Error(`Failed to index project. ${indexResult.message}`);
@@ -801,7 +1527,19 @@ export class IndexManager {
         percent: 50
       });
 
-      const enhancedQuery = await this.requestEnhancedQuery(query, blobNames);
+      if (!this.backend.enhancePrompt) {
+        throw new Error(`Prompt enhancement is not supported by the "${this.backend.id}" backend`);
+      }
+      const enhancedQuery = await this.backend.enhancePrompt(
+        {
+          query,
+          blobNames,
+          deletedBlobNames: this.getDeletedBlobNames(),
+          editorContext: this.getCurrentEditorContext(),
+          userGuidelines: this.userGuidelines
+        },
+        token
+      );
 
       this.reportProgress(reporter, {
         stage: 'complete',
@@ -811,6 +1549,10 @@ export class IndexManager {
 
       return enhancedQuery;
     } catch (error: unknown) {
+      if (isCancellationError(error)) {
+        this.cancelledResult(reporter, 'Enhancement cancelled');
+        throw new vscode.CancellationError();
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.reportProgress(reporter, {
         stage: 'error',
@@ -822,16 +1564,202 @@ export class IndexManager {
     }
   }
 
+  /**
+   * 离线关键词检索：后端不可用时在 file_map 记录的文件中做 BM25 检索，结果标注为离线结果
+   * 词法索引按项目缓存，索引保存后重新构建
+   */
+  private async searchOffline(
+    query: string,
+    reason: string,
+    token?: vscode.CancellationToken,
+    scope?: SearchScope
+  ): Promise<string> {
+    const store = this.loadIndexStore();
+    let cached = offlineIndexes.get(this.projectRoot);
+    if (!cached || cached.syncedAt !== store.synced_at) {
+      const index = new LexicalIndex();
+      for (const relativePath of Object.keys(store.file_map)) {
+        throwIfCancelled(token);
+        try {
+          const fullPath = path.join(this.projectRoot, relativePath);
+          const stat = await fs.promises.stat(fullPath);
+          const file = await this.readIndexableFile(fullPath, relativePath, stat, store.file_stats[relativePath]?.encoding);
+          if ('skipped' in file) {
+            continue;
+          }
+          for (const blob of this.splitFileContent(relativePath, file.content)) {
+            index.add({ name: blob.path, path: blob.path, content: blob.content, startLine: blob.startLine });
+          }
+        } catch {
+          // 已删除或无法读取的文件不参与离线检索
+        }
+      }
+      cached = { syncedAt: store.synced_at, index };
+      offlineIndexes.set(this.projectRoot, cached);
+    }
+
+    let allowed: Set<string> | undefined;
+    if (scope) {
+      const matcher = new SearchScopeMatcher(scope);
+      allowed = new Set(cached.index.names().filter((name) => matcher.matches(sourcePathOf(name))));
+    }
+    const hits = cached.index.search(query, { allowed });
+    if (hits.length === 0) {
+      return '';
+    }
+    return [
+      `${OFFLINE_RESULT_MARKER} The retrieval server is unreachable (${reason}). ` +
+        'Showing keyword (lexical) matches from locally indexed files; results may be less relevant than semantic search.',
+      formatLexicalHits(hits)
+    ].join('\n\n');
+  }
+
+  /**
+   * 将最近的提交（说明和 diff）同步到后端，返回可检索的提交 blob
+   * HEAD 和提交数量未变化时直接使用上次的记录，只上传新出现的提交
+   */
+  private async syncCommitHistory(
+    reporter: IndexProgressReporter | undefined,
+    token?: vscode.CancellationToken
+  ): Promise<CommitBlobs> {
+    const head = await readHeadCommit(this.projectRoot);
+    if (!head) {
+      sendLog('info', `Commit retrieval skipped, ${this.projectRoot} is not a git repository`);
+      return NO_COMMIT_BLOBS;
+    }
+
+    const { depth } = this.commitRetrieval;
+    const stored = this.commitStorage.read();
+    const previous = stored && stored.backend === this.backend.id ? stored : null;
+    if (previous && previous.head === head && previous.depth === depth) {
+      return {
+        blobNames: previous.commits.flatMap((commit) => commit.blobNames),
+        deletedBlobNames: previous.deletedBlobs || []
+      };
+    }
+    const known = new Map<string, CommitHistoryEntry>();
+    for (const commit of previous?.commits || []) {
+      known.set(commit.hash, commit);
+    }
+
+    const hashes = await listRecentCommits(this.projectRoot, depth);
+    const missing = hashes.filter((hash) => !known.has(hash));
+    throwIfCancelled(token);
+
+    let complete = true;
+    if (missing.length > 0) {
+      this.reportProgress(reporter, {
+        stage: 'uploading',
+        message: `Indexing ${missing.length} commits...`,
+        percent: 40
+      });
+      const blobs: Blob[] = [];
+      const pending: CommitHistoryEntry[] = [];
+      for (const commit of await readCommits(this.projectRoot, missing)) {
+        const filePath = commitPath(commit.hash);
+        const subject = commit.message.split('\n')[0];
+        let content = formatCommitDocument(commit);
+        const matches = this.secretScanner.scan(filePath, content);
+        if (matches.length > 0) {
+          const secrets = describeSecrets(toSecretFindings(matches));
+          if (this.secretScanner.policy === 'skip') {
+            sendLog('info', `Skipped commit ${commit.hash.slice(0, 8)} (secret: ${secrets})`);
+            known.set(commit.hash, { hash: commit.hash, subject, blobNames: [] });
+            continue;
+          }
+          sendLog('warning', `Redacted commit ${commit.hash.slice(0, 8)} before upload (${secrets})`);
+          content = redactSecrets(content, matches);
+        }
+        const commitBlobs = this.splitFileContent(filePath, content);
+        blobs.push(...commitBlobs);
+        pending.push({
+          hash: commit.hash,
+          subject,
+          blobNames: commitBlobs.map((blob) => calculateBlobName(blob.path, blob.content))
+        });
+      }
+
+      const { uploadedBlobNames } = await this.uploadBlobs(
+        blobs,
+        pending.flatMap((commit) => commit.blobNames),
+        reporter,
+        [40, 50],
+        token
+      );
+      throwIfCancelled(token);
+      const uploaded = new Set(uploadedBlobNames);
+      for (const commit of pending) {
+        if (commit.blobNames.every((name) => uploaded.has(name))) {
+          known.set(commit.hash, commit);
+        } else {
+          complete = false;
+        }
+      }
+      if (!complete) {
+        sendLog('warning', 'Some commits failed to upload, they will be retried on the next search');
+      }
+    }
+
+    const commits = hashes.flatMap((hash) => known.get(hash) ?? []);
+    const blobNames = commits.flatMap((commit) => commit.blobNames);
+    // 与文件切片相同，不再跟踪的提交切片记为已删除，重新进入范围时移除记录
+    const live = new Set(blobNames);
+    const deleted = new Set((previous?.deletedBlobs || []).filter((name) => !live.has(name)));
+    for (const commit of previous?.commits || []) {
+      commit.blobNames.filter((name) => !live.has(name)).forEach((name) => deleted.add(name));
+    }
+    const deletedBlobNames = [...deleted].slice(-MAX_DELETED_BLOBS);
+
+    // 有提交上传失败时不记录 HEAD，下次搜索时重试
+    await this.commitStorage.write({
+      backend: this.backend.id,
+      ...(complete ? { head } : {}),
+      depth,
+      commits,
+      ...(deletedBlobNames.length > 0 ? { deletedBlobs: deletedBlobNames } : {})
+    });
+    return { blobNames, deletedBlobNames };
+  }
+
+  /**
+   * 开启提交历史检索时返回提交 blob 和移出范围的提交 blob；读取 git 失败不影响代码检索
+   * 关闭后删除上传记录，再次开启时重新上传
+   */
+  private async getCommitBlobNames(
+    reporter: IndexProgressReporter | undefined,
+    token?: vscode.CancellationToken
+  ): Promise<CommitBlobs> {
+    if (!this.commitRetrieval.enabled) {
+      await this.commitStorage.clear();
+      return NO_COMMIT_BLOBS;
+    }
+    try {
+      return await this.syncCommitHistory(reporter, token);
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      sendLog('warning', `Failed to index commit history: ${errorMessage}`);
+      return NO_COMMIT_BLOBS;
+    }
+  }
+
   /**
    * 仅执行代码搜索（不进行提示词增强）
    */
   async searchCodebase(query: string, options: SearchOptions = {}): Promise<string> {
-    const reporter = options.reporter;
+    const { reporter, token } = options;
+    const scope = normalizeSearchScope(options.scope);
 
     try {
       let blobNames = this.getBlobNames();
       if (blobNames.length === 0) {
-        const indexResult = await this.indexProject(reporter);
+        const indexResult = await this.indexBeforeSearch(reporter, token);
+        throwIfCancelled(token);
+        if (indexResult.status === 'cancelled') {
+          throw new vscode.CancellationError();
+        }
         if (indexResult.status === 'error') {
           sendLog('error', `Index failed: ${indexResult.message}`);
           return `Error: Failed to index project. ${indexResult.message}`;
@@ -844,35 +1772,57 @@ export class IndexManager {
         return 'Error: No blobs found after indexing.';
       }
 
+      if (scope) {
+        blobNames = this.getScopedBlobNames(scope);
+        sendLog('info', `Search scope (${describeSearchScope(scope)}): ${blobNames.length} blobs`);
+        if (blobNames.length === 0) {
+          return scopeMismatchMessage(scope);
+        }
+      }
+
+      // 搜索范围只针对代码文件，限定范围时不检索提交历史
+      const commitBlobs = scope ? NO_COMMIT_BLOBS : await this.getCommitBlobNames(reporter, token);
+
       this.reportProgress(reporter, {
         stage: 'searching',
         message: 'Searching codebase...',
         percent: 50
       });
 
-      const payload = {
-        information_request: query,
-        blobs: {
-          checkpoint_id: null,
-          added_blobs: blobNames,
-          deleted_blobs: [],
-        },
-        dialog: [],
-        max_output_length: 0,
-        disable_codebase_retrieval: false,
-        enable_commit_retrieval: false,
-      };
-
-      const result = await this.retryRequest(async () => {
-        const response = await this.httpClient.post(
-          `${this.baseUrl}/agents/codebase-retrieval`,
-          payload,
-          { timeout: 60000 }
+      let formattedRetrieval: string;
+      let offline = false;
+      try {
+        formattedRetrieval = await this.backend.retrieve(
+          {
+            query,
+            blobNames: [...blobNames, ...commitBlobs.blobNames],
+            deletedBlobNames: [...this.getDeletedBlobNames(), ...commitBlobs.deletedBlobNames],
+            dialog: options.dialog,
+            includeCommits: commitBlobs.blobNames.length > 0
+          },
+          token
         );
-        return response.data;
-      }, 3, 2000);
+      } catch (error) {
+        if (!(error instanceof BackendUnavailableError)) {
+          throw error;
+        }
+        sendLog('warning', `Retrieval backend unavailable (${error.message}), falling back to offline keyword search`);
+        this.reportProgress(reporter, {
+          stage: 'searching',
+          message: 'Server unreachable, searching indexed files offline...',
+          percent: 60
+        });
+        formattedRetrieval = await this.searchOffline(query, error.message, token, scope);
+        offline = true;
+      }
 
-      const formattedRetrieval = result.formatted_retrieval || '';
+      if (!offline) {
+        const store = this.loadIndexStore();
+        formattedRetrieval = resolveChunkPaths(
+          formattedRetrieval,
+          (filePath, chunk) => this.getChunkStartLine(store, filePath, chunk)
+        );
+      }
 
       if (!formattedRetrieval) {
         sendLog('info', 'No relevant code context found');
@@ -881,12 +1831,17 @@ export class IndexManager {
 
       this.reportProgress(reporter, {
         stage: 'complete',
-        message: 'Search complete',
+        message: offline ? 'Search complete (offline keyword results)' : 'Search complete',
         percent: 100
       });
 
       return formattedRetrieval;
     } catch (error: unknown) {
+      // 取消不作为错误结果返回，由调用方处理
+      if (isCancellationError(error)) {
+        this.cancelledResult(reporter, 'Search cancelled');
+        throw new vscode.CancellationError();
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.reportProgress(reporter, {
         stage: 'error',
@@ -898,41 +1853,6 @@ export class IndexManager {
     }
   }
 
-  /**
-   * 请求增强的查询（内部方法）
-   */
-  /**
-   * 生成 UUID v4（用于请求 ID 和会话 ID）
-   */
-  private generateUUID(): string {
-    return crypto.randomUUID();
-  }
-
-  /**
-   * 获取工作区信息用于构建 IDE 状态节点
-   * 完全模拟 curl.txt 中的 ide_state_node 结构
-   */
-  private getWorkspaceInfo(): {
-    workspace_folders: Array<{ folder_root: string; repository_root: string }>;
-    workspace_folders_unchanged: boolean;
-    current_terminal: { terminal_id: number; current_working_directory: string };
-  } {
-    const workspaceFolders = vscode.workspace.workspaceFolders || [];
-    const projectRoot = this.projectRoot;
-
-    return {
-      workspace_folders: workspaceFolders.map((folder) => ({
-        folder_root: folder.uri.fsPath,
-        repository_root: folder.uri.fsPath
-      })),
-      workspace_folders_unchanged: false,
-      current_terminal: {
-        terminal_id: 0,
-        current_working_directory: projectRoot
-      }
-    };
-  }
-
   /**
    * 获取当前编辑器的上下文信息
    * @returns 编辑器上下文对象，如果没有活动编辑器则返回 null
@@ -950,20 +1870,17 @@ export class IndexManager {
     const document = activeEditor.document;
     const selection = activeEditor.selection;
     
-    // 获取文件的完整文本内容
-    const fullText = document.getText();
-    
     // 获取文件路径信息
     const absolutePath = document.uri.fsPath;
     const fileName = path.basename(absolutePath);
     
     // 计算相对路径
     let relativePath = absolutePath;
-    const workspaceFolders = vscode.workspace.workspaceFolders;
     let workspaceName = 'Unknown';
     
-    if (workspaceFolders && workspaceFolders.length > 0) {
-      const workspaceFolder = workspaceFolders[0];
+    // 多根工作区中取文件所在的工作区，而不是第一个
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (workspaceFolder) {
       relativePath = vscode.workspace.asRelativePath(absolutePath);
       workspaceName = path.basename(workspaceFolder.uri.fsPath);
     }
@@ -1035,271 +1952,5 @@ export class IndexManager {
     };
   }
 
-  /**
-   * 处理流式响应，提取增强后的提示词
-   * 响应格式为 JSONL（每行一个 JSON 对象），需要逐行解析
-   */
-  private async processStreamResponse(response: AxiosResponse): Promise<string> {
-    const stream = response.data;
-    let accumulatedText = ''; // 累积所有 text 字段
-    let lastNodes: any[] = []; // 保存最后的 nodes 数组
-
-    return new Promise((resolve, reject) => {
-      // 如果响应是字符串（非流式），直接处理
-      if (typeof stream === 'string') {
-        this.extractEnhancedPromptFromText(stream, resolve, reject);
-        return;
-      }
-
-      // 处理流式响应（Node.js Stream）
-      let buffer = '';
-
-      stream.on('data', (chunk: Buffer) => {
-        buffer += chunk.toString('utf-8');
-        
-        // 按行分割，处理完整的 JSON 行
-        const lines = buffer.split('\n');
-        // 保留最后一个不完整的行在 buffer 中
-        buffer = lines.pop() || '';
-
-        // 处理每一行 JSON
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          if (!trimmedLine) continue;
-
-          try {
-            const jsonObj = JSON.parse(trimmedLine);
-            
-            // 累积 text 字段
-            if (jsonObj.text) {
-              accumulatedText += jsonObj.text;
-            }
-
-            // 保存 nodes 数组（最后的 nodes 包含完整内容）
-            if (jsonObj.nodes && Array.isArray(jsonObj.nodes) && jsonObj.nodes.length > 0) {
-              lastNodes = jsonObj.nodes;
-            }
-
-            // 如果已经找到完整的增强提示词，可以提前结束
-            if (accumulatedText.includes('</augment-enhanced-prompt>')) {
-              const match = accumulatedText.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
-              if (match && match[1] && match[1].trim()) {
-                stream.destroy();
-                resolve(match[1].trim());
-                return;
-              }
-            }
-          } catch (error) {
-            // 忽略 JSON 解析错误（可能是部分数据）
-            continue;
-          }
-        }
-      });
-
-      stream.on('end', () => {
-        // 处理 buffer 中剩余的数据
-        if (buffer.trim()) {
-          try {
-            const jsonObj = JSON.parse(buffer.trim());
-            if (jsonObj.text) {
-              accumulatedText += jsonObj.text;
-            }
-            if (jsonObj.nodes && Array.isArray(jsonObj.nodes) && jsonObj.nodes.length > 0) {
-              lastNodes = jsonObj.nodes;
-            }
-          } catch (error) {
-            // 忽略解析错误
-          }
-        }
-
-        // 优先从 nodes 数组中提取完整内容（更可靠）
-        if (lastNodes.length > 0) {
-          for (const node of lastNodes) {
-            if (node.type === 0 && node.content) {
-              // type 0 是文本节点，包含完整响应
-              const match = node.content.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
-              if (match && match[1] && match[1].trim()) {
-                resolve(match[1].trim());
-                return;
-              }
-            }
-          }
-        }
-
-        // 如果 nodes 中没有找到，从累积的文本中提取
-        this.extractEnhancedPromptFromText(accumulatedText, resolve, reject);
-      });
-
-      stream.on('error', (error: Error) => {
-        reject(new Error(`流式响应错误: ${error.message}`));
-      });
-    });
-  }
-
-  /**
-   * 从响应文本内容中提取增强后的提示词
-   */
-  private extractEnhancedPromptFromText(
-    content: string,
-    resolve: (value: string) => void,
-    reject: (reason: Error) => void
-  ): void {
-    // 首先尝试查找 <augment-enhanced-prompt> 标签
-    let match = content.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
-    if (match && match[1]) {
-      const enhancedPrompt = match[1].trim();
-      if (enhancedPrompt) {
-        resolve(enhancedPrompt);
-        return;
-      }
-    }
-
-    // 如果没有找到标签，尝试查找 "BEGIN RESPONSE" 和 "END RESPONSE" 之间的内容
-    match = content.match(/### BEGIN RESPONSE ###([\s\S]*?)### END RESPONSE ###/);
-    if (match && match[1]) {
-      const responseContent = match[1].trim();
-      // 在响应内容中再次查找标签
-      const tagMatch = responseContent.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
-      if (tagMatch && tagMatch[1]) {
-        const enhancedPrompt = tagMatch[1].trim();
-        if (enhancedPrompt) {
-          resolve(enhancedPrompt);
-          return;
-        }
-      } else {
-        // 如果没有标签，使用整个响应内容
-        if (responseContent) {
-          resolve(responseContent);
-          return;
-        }
-      }
-    }
-
-    // 如果都没有找到，返回错误
-    reject(new Error('无法从响应中提取增强后的提示词。响应内容：' + content.substring(0, 500)));
-  }
-
-  /**
-   * 请求增强后的提示词（使用 /chat-stream 端点）
-   * 完全模拟 curl.txt 中的请求结构，包括所有必需的参数和请求头
-   * 
-   * @param query 原始提示词
-   * @param blobNames 代码库的 blob 名称列表
-   * @returns 增强后的提示词
-   */
-  private async requestEnhancedQuery(query: string, blobNames: string[]): Promise<string> {
-    // 生成请求 ID 和会话 ID
-    const requestId = this.generateUUID();
-    const sessionId = this.generateUUID();
-
-    // 获取工作区信息
-    const ideState = this.getWorkspaceInfo();
-
-    // 构建提示词增强的指令文本节点
-    const enhancementInstruction = `⚠️ NO TOOLS ALLOWED ⚠️
-
-Here is an instruction that I'd like to give you, but it needs to be improved. Rewrite and enhance this instruction to make it clearer, more specific, less ambiguous, and correct any mistakes. Do not use any tools: reply immediately with your answer, even if you're not sure. Consider the context of our conversation history when enhancing the prompt. If there is code in triple backticks (\`\`\`) consider whether it is a code sample and should remain unchanged.
-
-Reply with the following format:
-
-### BEGIN RESPONSE ###
-Here is an enhanced version of the original instruction that is more specific and clear:
-<augment-enhanced-prompt>enhanced prompt goes here</augment-enhanced-prompt>
-
-### END RESPONSE ###
-
-Here is my original instruction:
-
-${query}`;
-
-    // 构建完整的请求体，完全模拟 curl.txt 中的结构
-    // 获取当前编辑器的上下文信息
-    const editorContext = this.getCurrentEditorContext();
-    
-    const payload = {
-      model: null,
-      path: editorContext?.filePath || null,
-      prefix: editorContext?.prefix || null,
-      selected_code: editorContext?.selectedCode || null,
-      suffix: editorContext?.suffix || null,
-      message: '',
-      chat_history: [],
-      lang: editorContext?.languageId || null,
-      blobs: {
-        checkpoint_id: null,
-        added_blobs: blobNames,
-        deleted_blobs: []
-      },
-      user_guided_blobs: [],
-      context_code_exchange_request_id: null,
-      external_source_ids: [],
-      disable_auto_external_sources: null,
-      user_guidelines: this.userGuidelines,
-      workspace_guidelines: '',
-      feature_detection_flags: {
-        support_tool_use_start: true,
-        support_parallel_tool_use: true
-      },
-      tool_definitions: [],
-      nodes: [
-        {
-          id: 1,
-          type: 0, // 文本节点类型
-          text_node: {
-            content: enhancementInstruction
-          }
-        },
-        {
-          id: 2,
-          type: 4, // IDE 状态节点类型
-          ide_state_node: ideState
-        }
-      ],
-      mode: 'AGENT',
-      agent_memories: '',
-      persona_type: 0,
-      rules: [],
-      silent: true,
-      third_party_override: null,
-      conversation_id: '__NEW_AGENT__'
-    };
-
-    try {
-      const result = await this.retryRequest(async () => {
-        // 使用流式响应配置
-        const response = await this.httpClient.post(
-          `${this.baseUrl}/chat-stream`,
-          payload,
-          {
-            timeout: 120000, // 增加超时时间，因为流式响应可能需要更长时间
-            headers: {
-              'Content-Type': 'application/json',
-              'x-request-id': requestId,
-              'x-request-session-id': sessionId,
-              'Accept': 'text/event-stream',
-              'Cache-Control': 'no-cache'
-            },
-            responseType: 'stream' // 设置为流式响应
-          }
-        );
-        return response;
-      }, 3, 2000);
-
-      // 处理流式响应
-      const enhancedQuery = await this.processStreamResponse(result);
-
-      if (!enhancedQuery) {
-        throw new Error('Enhanced query was empty');
-      }
-
-      return enhancedQuery;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      sendLog('error', `提示词增强请求失败: ${errorMessage}`);
-      throw error;
-    }
-  }
-
 
 }
-
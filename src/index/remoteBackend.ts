@@ -0,0 +1,476 @@
+/**
+ * 远程检索后端 - 通过 HTTP 调用 /batch-upload、/agents/codebase-retrieval 和 /chat-stream
+ */
+
+import crypto from 'crypto';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import * as vscode from 'vscode';
+import { sendLog } from '../utils/VSCodeAdapter';
+import {
+  BackendBlob,
+  BackendUnavailableError,
+  EnhanceRequest,
+  RetrievalBackend,
+  RetrievalBackendOptions,
+  RetrievalRequest,
+  isCancellationError,
+  sleep,
+  throwIfCancelled
+} from './backend';
+
+/**
+ * 将取消令牌转换为 AbortSignal 供 axios 请求使用
+ */
+async function withAbortSignal<T>(
+  token: vscode.CancellationToken | undefined,
+  fn: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (!token) {
+    return fn(undefined);
+  }
+  const controller = new AbortController();
+  const listener = token.onCancellationRequested(() => controller.abort());
+  try {
+    return await fn(controller.signal);
+  } finally {
+    listener.dispose();
+  }
+}
+
+export class RemoteBackend implements RetrievalBackend {
+  public readonly id = 'remote';
+  private options: RetrievalBackendOptions;
+  private httpClient: AxiosInstance;
+
+  constructor(options: RetrievalBackendOptions) {
+    this.options = { ...options, baseUrl: options.baseUrl.replace(/\/$/, '') };
+    this.httpClient = axios.create({
+      timeout: 30000,
+      headers: {
+        Authorization: `Bearer ${options.token}`,
+      },
+    });
+  }
+
+  async uploadBlobs(blobs: BackendBlob[], token?: vscode.CancellationToken): Promise<string[]> {
+    const result = await this.retryRequest(async (signal) => {
+      const response = await this.httpClient.post(`${this.options.baseUrl}/batch-upload`, {
+        blobs: blobs.map(({ path, content }) => ({ path, content })),
+      }, { signal });
+      return response.data;
+    }, 3, 1000, token);
+    return result.blob_names || [];
+  }
+
+  async retrieve(request: RetrievalRequest, token?: vscode.CancellationToken): Promise<string> {
+    const payload = {
+      information_request: request.query,
+      blobs: {
+        checkpoint_id: null,
+        added_blobs: request.blobNames,
+        deleted_blobs: request.deletedBlobNames,
+      },
+      dialog: (request.dialog || []).map((exchange) => ({
+        request_message: exchange.request,
+        response_text: exchange.response,
+      })),
+      max_output_length: 0,
+      disable_codebase_retrieval: false,
+      enable_commit_retrieval: !!request.includeCommits,
+    };
+
+    const result = await this.retryRequest(async (signal) => {
+      const response = await this.httpClient.post(
+        `${this.options.baseUrl}/agents/codebase-retrieval`,
+        payload,
+        { timeout: 60000, signal }
+      );
+      return response.data;
+    }, 3, 2000, token);
+
+    return result.formatted_retrieval || '';
+  }
+
+  /**
+   * 请求增强后的提示词（使用 /chat-stream 端点）
+   * 完全模拟 curl.txt 中的请求结构，包括所有必需的参数和请求头
+   * 
+   * @param token 取消令牌，取消时中止请求和流式读取
+   * @returns 增强后的提示词
+   */
+  async enhancePrompt(request: EnhanceRequest, token?: vscode.CancellationToken): Promise<string> {
+    const { query, blobNames, deletedBlobNames, editorContext } = request;
+
+    // 生成请求 ID 和会话 ID
+    const requestId = this.generateUUID();
+    const sessionId = this.generateUUID();
+
+    // 获取工作区信息
+    const ideState = this.getWorkspaceInfo();
+
+    // 构建提示词增强的指令文本节点
+    const enhancementInstruction = `⚠️ NO TOOLS ALLOWED ⚠️
+
+Here is an instruction that I'd like to give you, but it needs to be improved. Rewrite and enhance this instruction to make it clearer, more specific, less ambiguous, and correct any mistakes. Do not use any tools: reply immediately with your answer, even if you're not sure. Consider the context of our conversation history when enhancing the prompt. If there is code in triple backticks (\`\`\`) consider whether it is a code sample and should remain unchanged.
+
+Reply with the following format:
+
+### BEGIN RESPONSE ###
+Here is an enhanced version of the original instruction that is more specific and clear:
+<augment-enhanced-prompt>enhanced prompt goes here</augment-enhanced-prompt>
+
+### END RESPONSE ###
+
+Here is my original instruction:
+
+${query}`;
+
+    // 构建完整的请求体，完全模拟 curl.txt 中的结构
+    const payload = {
+      model: null,
+      path: editorContext?.filePath || null,
+      prefix: editorContext?.prefix || null,
+      selected_code: editorContext?.selectedCode || null,
+      suffix: editorContext?.suffix || null,
+      message: '',
+      chat_history: [],
+      lang: editorContext?.languageId || null,
+      blobs: {
+        checkpoint_id: null,
+        added_blobs: blobNames,
+        deleted_blobs: deletedBlobNames
+      },
+      user_guided_blobs: [],
+      context_code_exchange_request_id: null,
+      external_source_ids: [],
+      disable_auto_external_sources: null,
+      user_guidelines: request.userGuidelines,
+      workspace_guidelines: '',
+      feature_detection_flags: {
+        support_tool_use_start: true,
+        support_parallel_tool_use: true
+      },
+      tool_definitions: [],
+      nodes: [
+        {
+          id: 1,
+          type: 0, // 文本节点类型
+          text_node: {
+            content: enhancementInstruction
+          }
+        },
+        {
+          id: 2,
+          type: 4, // IDE 状态节点类型
+          ide_state_node: ideState
+        }
+      ],
+      mode: 'AGENT',
+      agent_memories: '',
+      persona_type: 0,
+      rules: [],
+      silent: true,
+      third_party_override: null,
+      conversation_id: '__NEW_AGENT__'
+    };
+
+    try {
+      const result = await this.retryRequest(async (signal) => {
+        // 使用流式响应配置
+        const response = await this.httpClient.post(
+          `${this.options.baseUrl}/chat-stream`,
+          payload,
+          {
+            timeout: 120000, // 增加超时时间，因为流式响应可能需要更长时间
+            headers: {
+              'Content-Type': 'application/json',
+              'x-request-id': requestId,
+              'x-request-session-id': sessionId,
+              'Accept': 'text/event-stream',
+              'Cache-Control': 'no-cache'
+            },
+            responseType: 'stream', // 设置为流式响应
+            signal
+          }
+        );
+        return response;
+      }, 3, 2000, token);
+
+      // 处理流式响应，取消时销毁流
+      const cancelListener = token?.onCancellationRequested(() => result.data?.destroy?.(new vscode.CancellationError()));
+      let enhancedQuery: string;
+      try {
+        enhancedQuery = await this.processStreamResponse(result);
+      } finally {
+        cancelListener?.dispose();
+      }
+      throwIfCancelled(token);
+
+      if (!enhancedQuery) {
+        throw new Error('Enhanced query was empty');
+      }
+
+      return enhancedQuery;
+    } catch (error: unknown) {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      sendLog('error', `提示词增强请求失败: ${errorMessage}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 生成 UUID v4（用于请求 ID 和会话 ID）
+   */
+  private generateUUID(): string {
+    return crypto.randomUUID();
+  }
+
+  /**
+   * 获取工作区信息用于构建 IDE 状态节点
+   * 完全模拟 curl.txt 中的 ide_state_node 结构
+   */
+  private getWorkspaceInfo(): {
+    workspace_folders: Array<{ folder_root: string; repository_root: string }>;
+    workspace_folders_unchanged: boolean;
+    current_terminal: { terminal_id: number; current_working_directory: string };
+  } {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const projectRoot = this.options.projectRoot;
+
+    return {
+      workspace_folders: workspaceFolders.map((folder) => ({
+        folder_root: folder.uri.fsPath,
+        repository_root: folder.uri.fsPath
+      })),
+      workspace_folders_unchanged: false,
+      current_terminal: {
+        terminal_id: 0,
+        current_working_directory: projectRoot
+      }
+    };
+  }
+
+  /**
+   * 处理流式响应，提取增强后的提示词
+   * 响应格式为 JSONL（每行一个 JSON 对象），需要逐行解析
+   */
+  private async processStreamResponse(response: AxiosResponse): Promise<string> {
+    const stream = response.data;
+    let accumulatedText = ''; // 累积所有 text 字段
+    let lastNodes: Array<{ type?: number; content?: string }> = []; // 保存最后的 nodes 数组
+
+    return new Promise((resolve, reject) => {
+      // 如果响应是字符串（非流式），直接处理
+      if (typeof stream === 'string') {
+        this.extractEnhancedPromptFromText(stream, resolve, reject);
+        return;
+      }
+
+      // 处理流式响应（Node.js Stream）
+      let buffer = '';
+
+      stream.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString('utf-8');
+        
+        // 按行分割，处理完整的 JSON 行
+        const lines = buffer.split('\n');
+        // 保留最后一个不完整的行在 buffer 中
+        buffer = lines.pop() || '';
+
+        // 处理每一行 JSON
+        for (const line of lines) {
+          const trimmedLine = line.trim();
+          if (!trimmedLine) continue;
+
+          try {
+            const jsonObj = JSON.parse(trimmedLine);
+            
+            // 累积 text 字段
+            if (jsonObj.text) {
+              accumulatedText += jsonObj.text;
+            }
+
+            // 保存 nodes 数组（最后的 nodes 包含完整内容）
+            if (jsonObj.nodes && Array.isArray(jsonObj.nodes) && jsonObj.nodes.length > 0) {
+              lastNodes = jsonObj.nodes;
+            }
+
+            // 如果已经找到完整的增强提示词，可以提前结束
+            if (accumulatedText.includes('</augment-enhanced-prompt>')) {
+              const match = accumulatedText.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
+              if (match && match[1] && match[1].trim()) {
+                stream.destroy();
+                resolve(match[1].trim());
+                return;
+              }
+            }
+          } catch (error) {
+            // 忽略 JSON 解析错误（可能是部分数据）
+            continue;
+          }
+        }
+      });
+
+      stream.on('end', () => {
+        // 处理 buffer 中剩余的数据
+        if (buffer.trim()) {
+          try {
+            const jsonObj = JSON.parse(buffer.trim());
+            if (jsonObj.text) {
+              accumulatedText += jsonObj.text;
+            }
+            if (jsonObj.nodes && Array.isArray(jsonObj.nodes) && jsonObj.nodes.length > 0) {
+              lastNodes = jsonObj.nodes;
+            }
+          } catch (error) {
+            // 忽略解析错误
+          }
+        }
+
+        // 优先从 nodes 数组中提取完整内容（更可靠）
+        if (lastNodes.length > 0) {
+          for (const node of lastNodes) {
+            if (node.type === 0 && node.content) {
+              // type 0 是文本节点，包含完整响应
+              const match = node.content.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
+              if (match && match[1] && match[1].trim()) {
+                resolve(match[1].trim());
+                return;
+              }
+            }
+          }
+        }
+
+        // 如果 nodes 中没有找到，从累积的文本中提取
+        this.extractEnhancedPromptFromText(accumulatedText, resolve, reject);
+      });
+
+      stream.on('error', (error: Error) => {
+        reject(new Error(`流式响应错误: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * 从响应文本内容中提取增强后的提示词
+   */
+  private extractEnhancedPromptFromText(
+    content: string,
+    resolve: (value: string) => void,
+    reject: (reason: Error) => void
+  ): void {
+    // 首先尝试查找 <augment-enhanced-prompt> 标签
+    let match = content.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
+    if (match && match[1]) {
+      const enhancedPrompt = match[1].trim();
+      if (enhancedPrompt) {
+        resolve(enhancedPrompt);
+        return;
+      }
+    }
+
+    // 如果没有找到标签，尝试查找 "BEGIN RESPONSE" 和 "END RESPONSE" 之间的内容
+    match = content.match(/### BEGIN RESPONSE ###([\s\S]*?)### END RESPONSE ###/);
+    if (match && match[1]) {
+      const responseContent = match[1].trim();
+      // 在响应内容中再次查找标签
+      const tagMatch = responseContent.match(/<augment-enhanced-prompt>([\s\S]*?)<\/augment-enhanced-prompt>/);
+      if (tagMatch && tagMatch[1]) {
+        const enhancedPrompt = tagMatch[1].trim();
+        if (enhancedPrompt) {
+          resolve(enhancedPrompt);
+          return;
+        }
+      } else {
+        // 如果没有标签，使用整个响应内容
+        if (responseContent) {
+          resolve(responseContent);
+          return;
+        }
+      }
+    }
+
+    // 如果都没有找到，返回错误
+    reject(new Error('无法从响应中提取增强后的提示词。响应内容：' + content.substring(0, 500)));
+  }
+
+  /**
+   * 使用指数退避策略重试请求
+   */
+  private async retryRequest<T>(
+    fn: (signal?: AbortSignal) => Promise<T>,
+    maxRetries: number = 3,
+    retryDelay: number = 1000,
+    token?: vscode.CancellationToken
+  ): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      throwIfCancelled(token);
+      try {
+        return await withAbortSignal(token, fn);
+      } catch (error: unknown) {
+        // 取消的请求不重试
+        if (token?.isCancellationRequested || isCancellationError(error)) {
+          throw new vscode.CancellationError();
+        }
+        lastError = error instanceof Error ? error : new Error(String(error));
+        const axiosError = error as { code?: string; response?: { status: number; data?: unknown } };
+
+        // Token 失效检测 - 不重试，直接抛出友好错误
+        if (axiosError.response?.status === 401) {
+          sendLog('error', '🔑 Token 已失效或无效，请检查配置');
+          throw new Error('Token 已失效或无效，请在 VSCode 设置中更新 token');
+        }
+
+        // 权限被拒绝 - 可能被官方制裁
+        if (axiosError.response?.status === 403) {
+          sendLog('error', '🚫 访问被拒绝，Token 可能已被禁用');
+          throw new Error('访问被拒绝，Token 可能已被官方禁用，请联系服务提供商');
+        }
+
+        // SSL 证书错误检测 - 不重试
+        if (axiosError.code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE' ||
+            axiosError.code === 'CERT_HAS_EXPIRED' ||
+            axiosError.code === 'ERR_TLS_CERT_ALTNAME_INVALID' ||
+            lastError.message.includes('certificate') ||
+            lastError.message.includes('altnames')) {
+          sendLog('error', '🔐 SSL 证书验证失败，请检查 baseUrl 配置是否正确');
+          throw new Error('SSL 证书验证失败，请检查 baseUrl 配置是否正确，或联系服务提供商');
+        }
+
+        // 连接失败、连接被重置、超时（axios 超时为 ECONNABORTED）和 5xx 视为服务暂时不可用
+        const isRetryable =
+          axiosError.code === 'ECONNREFUSED' ||
+          axiosError.code === 'ECONNRESET' ||
+          axiosError.code === 'ETIMEDOUT' ||
+          axiosError.code === 'ECONNABORTED' ||
+          axiosError.code === 'ENOTFOUND' ||
+          (axiosError.response && axiosError.response.status >= 500);
+
+        if (!isRetryable || attempt === maxRetries - 1) {
+          // 提供更友好的网络错误提示
+          let friendlyMessage = lastError.message;
+          if (axiosError.code === 'ECONNREFUSED') {
+            friendlyMessage = '无法连接到服务器，请检查网络或服务地址';
+          } else if (axiosError.code === 'ETIMEDOUT' || axiosError.code === 'ECONNABORTED') {
+            friendlyMessage = '连接超时，请检查网络状况';
+          } else if (axiosError.code === 'ENOTFOUND') {
+            friendlyMessage = '无法解析服务器地址，请检查 baseUrl 配置';
+          }
+          sendLog('error', `❌ 请求失败 (${attempt + 1}次尝试): ${friendlyMessage}`);
+          throw isRetryable ? new BackendUnavailableError(friendlyMessage) : new Error(friendlyMessage);
+        }
+
+        const waitTime = retryDelay * Math.pow(2, attempt);
+        sendLog('warning', `⚠️ 请求失败 (${attempt + 1}/${maxRetries})，${waitTime}ms 后重试...`);
+        await sleep(waitTime, token);
+      }
+    }
+
+    throw lastError || new Error('All retries failed');
+  }
+}
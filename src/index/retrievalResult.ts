@@ -0,0 +1,188 @@
+/**
+ * 检索结果解析 - 将 formatted_retrieval 文本拆分为文件路径、行范围和代码片段
+ * 服务端与本地/离线检索使用相同的格式：`Path: <路径>` 后跟 `%6d\t<代码>` 形式的带行号代码，
+ * 同一文件中不连续的片段以 `...` 或行号跳跃分隔；多个工作区文件夹的结果以 `## <文件夹名>` 分节
+ */
+
+import { sourcePathOf } from './lexicalIndex';
+
+export interface RetrievalHit {
+  // 结果所属的工作区文件夹名称，仅多文件夹搜索时存在
+  folder?: string;
+  path: string;
+  // 从 1 开始的行号，结果不带行号时缺省
+  startLine?: number;
+  endLine?: number;
+  snippet: string;
+}
+
+export interface ParsedRetrieval {
+  hits: RetrievalHit[];
+  // 代码片段之外的说明文字，例如离线检索提示
+  notes: string[];
+}
+
+const RESULT_HEADER = 'The following code sections were retrieved:';
+const PATH_PREFIX = 'Path: ';
+const SECTION_GAP = '...';
+const NUMBERED_LINE = /^\s*(\d+)\t(.*)$/;
+const FOLDER_HEADER = /^## (.+)$/;
+const CHUNK_PATH = /^(.*)#chunk(\d+)of\d+$/;
+
+interface HitBuilder {
+  folder?: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  lines: string[];
+}
+
+/**
+ * 解析检索结果文本
+ * @param folderNames 工作区文件夹名称，只有这些名称的 `## ` 标题被视为文件夹分节，避免误判代码中的 Markdown 标题
+ */
+export function parseRetrievalResult(text: string, folderNames: string[] = []): ParsedRetrieval {
+  const hits: RetrievalHit[] = [];
+  const notes: string[] = [];
+  const folders = new Set(folderNames);
+  let folder: string | undefined;
+  let currentPath: string | undefined;
+  let current: HitBuilder | null = null;
+  // 不带行号的片段中，空行只有后面还有代码时才保留
+  let pendingBlankLines = 0;
+
+  const flush = (): void => {
+    if (current && current.lines.some((line) => line.trim())) {
+      hits.push({
+        ...(current.folder ? { folder: current.folder } : {}),
+        path: current.path,
+        ...(current.startLine !== undefined ? { startLine: current.startLine, endLine: current.endLine } : {}),
+        snippet: current.lines.join('\n').replace(/\s+$/, '')
+      });
+    }
+    current = null;
+    pendingBlankLines = 0;
+  };
+
+  const startHit = (): HitBuilder => {
+    current = { folder, path: currentPath!, lines: [] };
+    return current;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+
+    const folderMatch = FOLDER_HEADER.exec(trimmed);
+    if (folderMatch && folders.has(folderMatch[1].trim())) {
+      flush();
+      folder = folderMatch[1].trim();
+      currentPath = undefined;
+      continue;
+    }
+    if (trimmed === RESULT_HEADER) {
+      flush();
+      currentPath = undefined;
+      continue;
+    }
+    if (line.startsWith(PATH_PREFIX)) {
+      flush();
+      currentPath = sourcePathOf(line.slice(PATH_PREFIX.length).trim());
+      continue;
+    }
+
+    if (currentPath === undefined) {
+      if (trimmed) {
+        notes.push(trimmed);
+      }
+      continue;
+    }
+
+    if (trimmed === SECTION_GAP) {
+      flush();
+      continue;
+    }
+
+    const numbered = NUMBERED_LINE.exec(line);
+    if (numbered) {
+      const lineNumber = Number(numbered[1]);
+      let hit: HitBuilder = current || startHit();
+      if (hit.endLine !== undefined && lineNumber !== hit.endLine + 1) {
+        flush();
+        hit = startHit();
+      }
+      if (hit.startLine === undefined) {
+        if (hit.lines.length > 0) {
+          // 不带行号的片段后出现带行号的代码，作为新的片段
+          flush();
+          hit = startHit();
+        }
+        hit.startLine = lineNumber;
+      }
+      hit.endLine = lineNumber;
+      hit.lines.push(numbered[2]);
+      pendingBlankLines = 0;
+      continue;
+    }
+
+    if (!trimmed) {
+      pendingBlankLines++;
+      continue;
+    }
+
+    let hit: HitBuilder = current || startHit();
+    if (hit.startLine !== undefined) {
+      // 带行号的片段结束后出现的其他内容
+      flush();
+      hit = startHit();
+    }
+    if (hit.lines.length > 0) {
+      hit.lines.push(...Array(pendingBlankLines).fill(''));
+    }
+    pendingBlankLines = 0;
+    hit.lines.push(line);
+  }
+  flush();
+
+  return { hits, notes };
+}
+
+/**
+ * 将服务端结果中的切片路径（例如 `src/a.ts#chunk2of3`）还原为文件路径，
+ * 切片内的行号加上切片的起始行号，换算为文件中的行号
+ * @param getChunkStartLine 返回切片在文件中的起始行号（切片序号从 1 开始），未知时返回 undefined
+ */
+export function resolveChunkPaths(
+  text: string,
+  getChunkStartLine: (filePath: string, chunk: number) => number | undefined
+): string {
+  let offset = 0;
+  return text.split('\n').map((line) => {
+    if (line.startsWith(PATH_PREFIX)) {
+      const match = CHUNK_PATH.exec(line.slice(PATH_PREFIX.length).trim());
+      if (!match) {
+        offset = 0;
+        return line;
+      }
+      offset = (getChunkStartLine(match[1], Number(match[2])) ?? 1) - 1;
+      return `${PATH_PREFIX}${match[1]}`;
+    }
+    const numbered = offset > 0 ? /^(\s*)(\d+)\t/.exec(line) : null;
+    if (!numbered) {
+      return line;
+    }
+    const lineNumber = String(Number(numbered[2]) + offset).padStart(numbered[1].length + numbered[2].length);
+    return `${lineNumber}\t${line.slice(numbered[0].length)}`;
+  }).join('\n');
+}
+
+/**
+ * 结果在界面中显示的位置，例如 `src/a.ts:10-24`
+ */
+export function formatHitLocation(hit: RetrievalHit): string {
+  if (hit.startLine === undefined) {
+    return hit.path;
+  }
+  return hit.endLine !== undefined && hit.endLine !== hit.startLine
+    ? `${hit.path}:${hit.startLine}-${hit.endLine}`
+    : `${hit.path}:${hit.startLine}`;
+}
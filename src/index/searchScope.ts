@@ -0,0 +1,161 @@
+/**
+ * 搜索范围 - 将检索限制在 file_map 中的部分文件：目录、通配符（gitignore 语法）和语言
+ * 同一类条件之间为“或”，不同类条件之间为“且”；路径均相对工作区文件夹根目录
+ */
+
+import path from 'path';
+import ignore from 'ignore';
+
+export interface SearchScope {
+  // 目录或文件，例如 `src/api`
+  paths?: string[];
+  // 通配符，例如 `*.test.ts`、`src/**/*.go`
+  globs?: string[];
+  // 语言名称（typescript、python）或扩展名（ts、.vue）
+  languages?: string[];
+}
+
+type IgnoreInstance = ReturnType<typeof ignore>;
+
+// 语言名称及常用简称对应的扩展名，未列出的名称按扩展名处理
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  typescript: ['.ts', '.tsx', '.mts', '.cts'],
+  ts: ['.ts', '.tsx', '.mts', '.cts'],
+  javascript: ['.js', '.jsx', '.mjs', '.cjs'],
+  js: ['.js', '.jsx', '.mjs', '.cjs'],
+  python: ['.py', '.pyi'],
+  py: ['.py', '.pyi'],
+  java: ['.java'],
+  kotlin: ['.kt', '.kts'],
+  go: ['.go'],
+  rust: ['.rs'],
+  c: ['.c', '.h'],
+  cpp: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx', '.h'],
+  csharp: ['.cs'],
+  ruby: ['.rb'],
+  php: ['.php'],
+  swift: ['.swift'],
+  scala: ['.scala'],
+  shell: ['.sh', '.bash', '.zsh'],
+  powershell: ['.ps1', '.psm1'],
+  sql: ['.sql'],
+  html: ['.html', '.htm'],
+  css: ['.css', '.scss', '.sass', '.less'],
+  vue: ['.vue'],
+  markdown: ['.md', '.mdx'],
+  json: ['.json', '.jsonc'],
+  yaml: ['.yaml', '.yml'],
+  xml: ['.xml']
+};
+
+function cleanList(values: string[] | undefined): string[] {
+  return (values || []).map((value) => value.trim()).filter(Boolean);
+}
+
+function normalizeScopePath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * 去掉空白项，没有任何条件时返回 undefined（即搜索全部文件）
+ */
+export function normalizeSearchScope(scope: SearchScope | undefined): SearchScope | undefined {
+  if (!scope) {
+    return undefined;
+  }
+  const paths = cleanList(scope.paths).map(normalizeScopePath).filter((value) => value && value !== '.');
+  const globs = cleanList(scope.globs);
+  const languages = cleanList(scope.languages).map((value) => value.toLowerCase());
+  if (paths.length === 0 && globs.length === 0 && languages.length === 0) {
+    return undefined;
+  }
+  return {
+    ...(paths.length > 0 ? { paths } : {}),
+    ...(globs.length > 0 ? { globs } : {}),
+    ...(languages.length > 0 ? { languages } : {})
+  };
+}
+
+/**
+ * 解析输入框中的范围：以逗号或空白分隔，`lang:` 前缀为语言，含 `*`、`?`、`[` 的为通配符，其余为目录
+ * 例如 `src/api, *.test.ts lang:python`
+ */
+export function parseSearchScope(text: string | undefined): SearchScope | undefined {
+  const paths: string[] = [];
+  const globs: string[] = [];
+  const languages: string[] = [];
+  for (const token of (text || '').split(/[\s,]+/).filter(Boolean)) {
+    const language = /^(?:lang|language):(.+)$/i.exec(token);
+    if (language) {
+      languages.push(language[1]);
+    } else if (/[*?[]/.test(token)) {
+      globs.push(token);
+    } else {
+      paths.push(token);
+    }
+  }
+  return normalizeSearchScope({ paths, globs, languages });
+}
+
+/**
+ * 范围的可读描述，用于日志和提示
+ */
+export function describeSearchScope(scope: SearchScope): string {
+  const parts: string[] = [];
+  if (scope.paths?.length) {
+    parts.push(`paths: ${scope.paths.join(', ')}`);
+  }
+  if (scope.globs?.length) {
+    parts.push(`globs: ${scope.globs.join(', ')}`);
+  }
+  if (scope.languages?.length) {
+    parts.push(`languages: ${scope.languages.join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * 范围内没有已索引文件时 searchCodebase 返回的提示
+ */
+export function scopeMismatchMessage(scope: SearchScope): string {
+  return `No indexed files match the search scope (${describeSearchScope(scope)}).`;
+}
+
+function languageExtensions(language: string): string[] {
+  const key = language.toLowerCase();
+  if (LANGUAGE_EXTENSIONS[key]) {
+    return LANGUAGE_EXTENSIONS[key];
+  }
+  return [key.startsWith('.') ? key : `.${key}`];
+}
+
+/**
+ * 判断相对路径是否在搜索范围内
+ */
+export class SearchScopeMatcher {
+  private paths: string[];
+  private globs: IgnoreInstance | null;
+  private extensions: Set<string> | null;
+
+  constructor(scope: SearchScope) {
+    const normalized = normalizeSearchScope(scope) || {};
+    this.paths = normalized.paths || [];
+    this.globs = normalized.globs ? ignore().add(normalized.globs) : null;
+    this.extensions = normalized.languages ? new Set(normalized.languages.flatMap(languageExtensions)) : null;
+  }
+
+  public matches(relativePath: string): boolean {
+    const normalized = relativePath.replace(/\\/g, '/');
+    if (this.paths.length > 0
+      && !this.paths.some((scopePath) => normalized === scopePath || normalized.startsWith(`${scopePath}/`))) {
+      return false;
+    }
+    if (this.globs && !this.globs.ignores(normalized)) {
+      return false;
+    }
+    if (this.extensions && !this.extensions.has(path.posix.extname(normalized).toLowerCase())) {
+      return false;
+    }
+    return true;
+  }
+}
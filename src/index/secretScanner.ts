@@ -0,0 +1,317 @@
+/**
+ * 密钥检测 - 上传前扫描私钥、云服务凭据、令牌以及高熵字符串
+ * 按策略将命中的内容替换为占位符或跳过整个文件，误报可通过白名单放行
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import ignore from 'ignore';
+
+/**
+ * redact：替换命中内容后上传；skip：跳过整个文件；off：不检测
+ */
+export type SecretPolicy = 'redact' | 'skip' | 'off';
+
+export interface SecretScanOptions {
+  policy: SecretPolicy;
+  // 白名单：gitignore 语法的路径模式，或报告中的 "fingerprint:<指纹>"
+  allowlist: string[];
+}
+
+export const DEFAULT_SECRET_SCAN_OPTIONS: SecretScanOptions = {
+  policy: 'redact',
+  allowlist: []
+};
+
+/**
+ * 记录到索引和报告中的检测结果，不包含密钥原文
+ */
+export interface SecretFinding {
+  rule: string;
+  // 从 1 开始的行号
+  line: number;
+  // 密钥内容的 SHA-256 前 16 位，用于白名单
+  fingerprint: string;
+  // 打码后的预览，只保留开头几个字符
+  preview: string;
+}
+
+interface SecretMatch extends SecretFinding {
+  start: number;
+  end: number;
+}
+
+interface SecretRule {
+  id: string;
+  pattern: RegExp;
+  // 密钥所在的捕获组，未指定时为整个匹配
+  group?: number;
+  // 对捕获内容的额外校验，返回 false 时忽略
+  validate?: (value: string) => boolean;
+}
+
+export const FINGERPRINT_PREFIX = 'fingerprint:';
+// 行内注释标记，所在行的命中会被忽略
+export const INLINE_ALLOW_MARKER = 'ace-sidebar:allow-secret';
+
+// 敏感字段名，匹配 password = "..."、api_key: ... 等赋值
+const SECRET_KEY_NAMES =
+  '(?:[A-Za-z0-9_.-]*?)(?:password|passwd|pwd|secret|token|api[_-]?key|apikey|access[_-]?key|private[_-]?key|client[_-]?secret|auth[_-]?key|credentials?)';
+
+// 配置类文件中的赋值允许不带引号的值
+const CONFIG_EXTENSIONS = new Set(['.env', '.ini', '.conf', '.properties', '.yaml', '.yml', '.toml', '.cfg']);
+
+// 常见占位值，不视为密钥
+const PLACEHOLDER_VALUE = /^(?:x+|\*+|\.+|-+|changeme|change_me|example|placeholder|password|secret|token|null|none|true|false|undefined|test|dummy|redacted)$/i;
+// 引用其他变量或模板的值
+const REFERENCE_VALUE = /^(?:\$\{.*\}|\$[A-Za-z_]|\{\{.*\}\}|%\(.*\)s|<.*>|process\.env|os\.environ|env\(|getenv)/i;
+
+const HIGH_ENTROPY_MIN_LENGTH = 32;
+const HIGH_ENTROPY_THRESHOLD = 4.5;
+const ASSIGNMENT_MIN_LENGTH = 8;
+const ASSIGNMENT_ENTROPY_THRESHOLD = 3;
+
+const PREVIEW_LENGTH = 4;
+
+const RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    pattern: /-----BEGIN ((?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?)-----[\s\S]*?-----END \1-----/g
+  },
+  { id: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { id: 'gitlab-token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+  { id: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { id: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'stripe-key', pattern: /\b[rs]k_live_[0-9A-Za-z]{16,}\b/g },
+  { id: 'api-key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}\b/g },
+  { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    id: 'url-credentials',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"]+:([^\s@/'"]+)@/gi,
+    group: 1,
+    validate: (value) => !REFERENCE_VALUE.test(value) && !PLACEHOLDER_VALUE.test(value)
+  }
+];
+
+/**
+ * 计算字符串的香农熵（每个字符的比特数）
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export function secretFingerprint(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+function maskSecret(value: string): string {
+  const visible = value.length > PREVIEW_LENGTH * 2 ? value.slice(0, PREVIEW_LENGTH) : '';
+  return `${visible}${'*'.repeat(8)} (${value.length} chars)`;
+}
+
+function isAssignedSecret(value: string): boolean {
+  return (
+    value.length >= ASSIGNMENT_MIN_LENGTH &&
+    !/\s/.test(value) &&
+    !PLACEHOLDER_VALUE.test(value) &&
+    !REFERENCE_VALUE.test(value) &&
+    shannonEntropy(value) >= ASSIGNMENT_ENTROPY_THRESHOLD
+  );
+}
+
+function isHighEntropyToken(value: string): boolean {
+  // 纯十六进制通常是哈希或校验和，不检测
+  if (/^[0-9a-f]+$/i.test(value)) {
+    return false;
+  }
+  return (
+    /[0-9]/.test(value) &&
+    /[a-z]/.test(value) &&
+    /[A-Z]/.test(value) &&
+    shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD
+  );
+}
+
+/**
+ * 将命中内容替换为占位符，多行内容保留换行以维持行号不变
+ * @param matches 由 SecretScanner.scan 返回，按位置升序且互不重叠
+ */
+export function redactSecrets(content: string, matches: ReadonlyArray<{ rule: string; start: number; end: number }>): string {
+  let result = '';
+  let cursor = 0;
+  for (const match of matches) {
+    const newlines = content.slice(match.start, match.end).match(/\n/g)?.length || 0;
+    result += content.slice(cursor, match.start) + `[REDACTED:${match.rule}]` + '\n'.repeat(newlines);
+    cursor = match.end;
+  }
+  return result + content.slice(cursor);
+}
+
+/**
+ * 一行文字概括检测结果，例如 "2 secrets: aws-access-key (line 3), jwt (line 10)"
+ */
+export function describeSecrets(findings: SecretFinding[]): string {
+  const items = findings.slice(0, 3).map((finding) => `${finding.rule} (line ${finding.line})`);
+  const more = findings.length > 3 ? `, +${findings.length - 3} more` : '';
+  return `${findings.length} secret${findings.length === 1 ? '' : 's'}: ${items.join(', ')}${more}`;
+}
+
+/**
+ * 按策略和白名单扫描文件内容
+ */
+export class SecretScanner {
+  public readonly policy: SecretPolicy;
+  private allowedPaths = ignore();
+  private allowedFingerprints = new Set<string>();
+
+  constructor(options: SecretScanOptions = DEFAULT_SECRET_SCAN_OPTIONS) {
+    this.policy = options.policy;
+    for (const entry of options.allowlist) {
+      const value = entry.trim();
+      if (!value) {
+        continue;
+      }
+      if (value.startsWith(FINGERPRINT_PREFIX)) {
+        this.allowedFingerprints.add(value.slice(FINGERPRINT_PREFIX.length).trim().toLowerCase());
+      } else {
+        this.allowedPaths.add(value);
+      }
+    }
+  }
+
+  public get enabled(): boolean {
+    return this.policy !== 'off';
+  }
+
+  public isPathAllowed(relativePath: string): boolean {
+    return this.allowedPaths.ignores(relativePath);
+  }
+
+  public isFindingAllowed(finding: SecretFinding): boolean {
+    return this.allowedFingerprints.has(finding.fingerprint);
+  }
+
+  /**
+   * 上次索引时记录的检测结果是否已不适用（策略或白名单变化），需要重新读取文件
+   */
+  public isStale(relativePath: string, findings: SecretFinding[] | undefined): boolean {
+    if (!findings || findings.length === 0) {
+      return false;
+    }
+    return this.policy !== 'redact' || this.isPathAllowed(relativePath) || findings.some((finding) => this.isFindingAllowed(finding));
+  }
+
+  /**
+   * @param relativePath 正斜杠分隔的相对路径
+   * @returns 按位置升序、互不重叠的命中结果
+   */
+  public scan(relativePath: string, content: string): SecretMatch[] {
+    if (!this.enabled || this.isPathAllowed(relativePath)) {
+      return [];
+    }
+
+    const candidates: Array<{ rule: string; start: number; end: number }> = [];
+    for (const rule of RULES) {
+      for (const match of content.matchAll(rule.pattern)) {
+        const value = rule.group ? match[rule.group] : match[0];
+        if (!value || (rule.validate && !rule.validate(value))) {
+          continue;
+        }
+        const start = match.index! + (rule.group ? match[0].indexOf(value) : 0);
+        candidates.push({ rule: rule.id, start, end: start + value.length });
+      }
+    }
+
+    const bareValues = CONFIG_EXTENSIONS.has(path.extname(relativePath).toLowerCase()) || path.basename(relativePath).startsWith('.env');
+    const assignment = new RegExp(
+      `\\b${SECRET_KEY_NAMES}["']?\\s*[:=]\\s*(?:"([^"\\n]*)"|'([^'\\n]*)'${bareValues ? '|([^\\s#;,]+)' : ''})`,
+      'gi'
+    );
+    for (const match of content.matchAll(assignment)) {
+      const value = match[1] ?? match[2] ?? match[3];
+      if (!value || !isAssignedSecret(value)) {
+        continue;
+      }
+      const start = match.index! + match[0].lastIndexOf(value);
+      candidates.push({ rule: 'generic-secret', start, end: start + value.length });
+    }
+
+    for (const match of content.matchAll(/(["'`])([A-Za-z0-9+/_=-]{32,})\1/g)) {
+      const value = match[2];
+      if (value.length >= HIGH_ENTROPY_MIN_LENGTH && isHighEntropyToken(value)) {
+        const start = match.index! + 1;
+        candidates.push({ rule: 'high-entropy', start, end: start + value.length });
+      }
+    }
+
+    // 按位置排序，重叠时保留先出现且更长的命中（具体规则先于通用规则加入）
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    const lineOf = (offset: number): number => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    };
+
+    const matches: SecretMatch[] = [];
+    let lastEnd = -1;
+    for (const candidate of candidates) {
+      if (candidate.start < lastEnd) {
+        continue;
+      }
+      const lineIndex = lineOf(candidate.start);
+      const lineEnd = content.indexOf('\n', lineStarts[lineIndex]);
+      const lineText = content.slice(lineStarts[lineIndex], lineEnd === -1 ? undefined : lineEnd);
+      if (lineText.includes(INLINE_ALLOW_MARKER)) {
+        continue;
+      }
+
+      const value = content.slice(candidate.start, candidate.end);
+      const finding: SecretMatch = {
+        ...candidate,
+        line: lineIndex + 1,
+        fingerprint: secretFingerprint(value),
+        preview: maskSecret(value)
+      };
+      if (this.isFindingAllowed(finding)) {
+        continue;
+      }
+      matches.push(finding);
+      lastEnd = candidate.end;
+    }
+    return matches;
+  }
+}
+
+/**
+ * 去掉内部使用的位置信息，得到可以持久化的检测结果
+ */
+export function toSecretFindings(matches: SecretMatch[]): SecretFinding[] {
+  return matches.map(({ rule, line, fingerprint, preview }) => ({ rule, line, fingerprint, preview }));
+}
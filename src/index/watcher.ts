@@ -0,0 +1,150 @@
+/**
+ * 文件监听同步 - 监听工作区内的新增、修改、删除和重命名，合并后交给索引任务队列
+ * 覆盖 git checkout、git pull、代码生成器和终端删除等不经过编辑器保存的变更
+ * 被 excludePatterns、.gitignore 或 .aceignore 排除的路径（node_modules、.git、编译输出等）不会进入队列
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as vscode from 'vscode';
+import { IGNORE_FILE_NAMES, IgnoreRules, matchesExcludePatterns } from './ignoreRules';
+import { getWorkspaceFolderRoot } from './workspaceFolders';
+
+// 最后一次变更后等待的时间（毫秒），用于合并切换分支等突发的大量变更
+const SYNC_DEBOUNCE_DELAY = 1000;
+// 持续变更时最长等待时间（毫秒），避免一直推迟同步
+const SYNC_MAX_DELAY = 10000;
+// 单次变更路径超过该数量时改为执行完整的增量索引
+const FULL_SYNC_THRESHOLD = 500;
+
+function readExcludePatterns(): string[] {
+  return (vscode.workspace.getConfiguration('ace-sidebar').get<string[]>('excludePatterns', []) || [])
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+export class IndexFileWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private pendingPaths = new Set<string>();
+  private needsFullSync = false;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private firstPendingAt = 0;
+  private excludePatterns = readExcludePatterns();
+  // 按工作区文件夹缓存的忽略规则，忽略文件变化后重新加载
+  private ignoreRules = new Map<string, IgnoreRules>();
+
+  /**
+   * @param onChanges 接收一批变更路径，fullSync 为 true 时应执行完整的增量索引
+   */
+  constructor(
+    private readonly onChanges: (paths: string[], fullSync: boolean) => void
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate((uri) => this.enqueue(uri)),
+      watcher.onDidChange((uri) => this.enqueue(uri)),
+      watcher.onDidDelete((uri) => this.enqueue(uri)),
+      // 编辑器内的重命名同时提供新旧路径，目录重命名时监听器可能只报告目录本身
+      vscode.workspace.onDidRenameFiles((event) => {
+        for (const file of event.files) {
+          this.enqueue(file.oldUri);
+          this.enqueue(file.newUri);
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('ace-sidebar.excludePatterns')) {
+          this.excludePatterns = readExcludePatterns();
+        }
+      })
+    );
+  }
+
+  private enqueue(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file') {
+      return;
+    }
+
+    const fsPath = uri.fsPath;
+    if (fsPath.split(path.sep).includes('.ace-sidebar') || this.isIgnored(fsPath)) {
+      return;
+    }
+
+    // 忽略规则变化会影响整个项目，改为完整同步
+    if (IGNORE_FILE_NAMES.includes(path.basename(fsPath))) {
+      this.needsFullSync = true;
+      this.ignoreRules.clear();
+    }
+
+    this.pendingPaths.add(fsPath);
+    this.scheduleFlush();
+  }
+
+  /**
+   * 与 IndexManager 使用相同的排除规则；不在工作区文件夹中的路径不会被索引
+   */
+  private isIgnored(fsPath: string): boolean {
+    const projectRoot = getWorkspaceFolderRoot(fsPath);
+    if (!projectRoot) {
+      return true;
+    }
+    const relativePath = path.relative(projectRoot, fsPath).replace(/\\/g, '/');
+    if (!relativePath || matchesExcludePatterns(relativePath, this.excludePatterns)) {
+      return true;
+    }
+
+    let rules = this.ignoreRules.get(projectRoot);
+    if (!rules) {
+      rules = new IgnoreRules(projectRoot);
+      this.ignoreRules.set(projectRoot, rules);
+    }
+    let isDir = false;
+    try {
+      isDir = fs.statSync(fsPath).isDirectory();
+    } catch {
+      // 已删除的路径按文件处理
+    }
+    return rules.ignores(relativePath, isDir);
+  }
+
+  private scheduleFlush(): void {
+    const now = Date.now();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    } else {
+      this.firstPendingAt = now;
+    }
+
+    const delay = Math.max(0, Math.min(SYNC_DEBOUNCE_DELAY, this.firstPendingAt + SYNC_MAX_DELAY - now));
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * 提交当前累积的变更
+   */
+  private flush(): void {
+    const paths = [...this.pendingPaths];
+    const fullSync = this.needsFullSync || paths.length > FULL_SYNC_THRESHOLD;
+    this.pendingPaths.clear();
+    this.needsFullSync = false;
+
+    if (paths.length > 0) {
+      this.onChanges(paths, fullSync);
+    }
+  }
+
+  public dispose(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pendingPaths.clear();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 多根工作区 - 每个工作区文件夹独立索引（各自的 .ace-sidebar/index.jsonl）
+ * 搜索可以指定单个文件夹，也可以依次搜索全部文件夹后合并结果
+ */
+
+import path from 'path';
+import * as vscode from 'vscode';
+import { IndexManager, SearchOptions } from './manager';
+import { normalizeSearchScope, scopeMismatchMessage } from './searchScope';
+
+// 搜索无结果时 searchCodebase 返回的提示
+const NO_RESULT_MESSAGE = 'No relevant code context found for your query.';
+
+/**
+ * 获取所有工作区文件夹的根路径
+ */
+export function getWorkspaceFolderRoots(): string[] {
+  return (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
+}
+
+/**
+ * 获取路径所属的工作区文件夹根路径（文件已删除时同样适用）
+ */
+export function getWorkspaceFolderRoot(fsPath: string): string | undefined {
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath))?.uri.fsPath;
+}
+
+/**
+ * 获取工作区文件夹的显示名称
+ */
+export function getWorkspaceFolderName(projectRoot: string): string {
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectRoot))?.name || path.basename(projectRoot);
+}
+
+/**
+ * 按名称或路径解析要搜索的工作区文件夹，未指定或为 "all" 时返回全部文件夹
+ */
+export function resolveWorkspaceFolders(selector?: string): string[] {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length === 0) {
+    throw new Error('未检测到工作区文件夹。请先打开一个文件夹，然后重试。');
+  }
+
+  const trimmed = (selector || '').trim();
+  if (!trimmed || trimmed.toLowerCase() === 'all') {
+    return folders.map((folder) => folder.uri.fsPath);
+  }
+
+  const match = folders.find((folder) => folder.name === trimmed)
+    || folders.find((folder) => path.resolve(folder.uri.fsPath) === path.resolve(trimmed));
+  if (!match) {
+    const available = folders.map((folder) => folder.name).join(', ');
+    throw new Error(`未找到工作区文件夹: ${trimmed}（可用: ${available}）`);
+  }
+
+  return [match.uri.fsPath];
+}
+
+/**
+ * 在一个或多个工作区文件夹中搜索，多个文件夹时按文件夹分节合并结果
+ * 搜索范围中的路径相对每个工作区文件夹
+ */
+export async function searchWorkspaceFolders(
+  projectRoots: string[],
+  query: string,
+  createIndexManager: (projectRoot: string) => IndexManager,
+  options: SearchOptions = {}
+): Promise<string> {
+  if (projectRoots.length === 1) {
+    return createIndexManager(projectRoots[0]).searchCodebase(query, options);
+  }
+
+  const { reporter } = options;
+  const normalizedScope = normalizeSearchScope(options.scope);
+  const mismatch = normalizedScope && scopeMismatchMessage(normalizedScope);
+  const sections: string[] = [];
+  let matchedFolders = 0;
+  for (const projectRoot of projectRoots) {
+    const name = getWorkspaceFolderName(projectRoot);
+    const result = await createIndexManager(projectRoot).searchCodebase(query, {
+      ...options,
+      reporter: reporter && ((update) => reporter({ ...update, message: `[${name}] ${update.message}` })),
+      scope: normalizedScope
+    });
+    if (result === mismatch) {
+      continue;
+    }
+    matchedFolders++;
+    if (result && result !== NO_RESULT_MESSAGE) {
+      sections.push(`## ${name}\n\n${result}`);
+    }
+  }
+
+  if (sections.length > 0) {
+    return sections.join('\n\n');
+  }
+  // 所有文件夹都没有范围内的文件时给出范围提示，而不是“无结果”
+  return mismatch && matchedFolders === 0 ? mismatch : NO_RESULT_MESSAGE;
+}
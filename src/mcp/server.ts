@@ -8,13 +8,15 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import * as z from 'zod';
 import express, { Express, Request, Response } from 'express';
+import http from 'http';
 import { Config } from '../config';
-import { IndexManager } from '../index/manager';
+import { IndexManager, indexManagerOptions } from '../index/manager';
+import { resolveWorkspaceFolders, searchWorkspaceFolders } from '../index/workspaceFolders';
 
 export class MCPServer {
   private server: McpServer | null = null;
   private expressApp: Express | null = null;
-  private httpServer: any = null;
+  private httpServer: http.Server | null = null;
   private port: number;
   private isRunning: boolean = false;
 
@@ -85,7 +87,7 @@ export class MCPServer {
           await this.server.connect(transport);
 
           // 处理请求
-          await transport.handleRequest(req as any, res as any, req.body);
+          await transport.handleRequest(req, res, req.body);
 
           // 处理连接关闭
           req.on('close', () => {
@@ -119,7 +121,7 @@ export class MCPServer {
 
       this.httpServer.on('error', (error: Error) => {
         console.error('HTTP 服务器错误:', error.message);
-        if ((error as any).code === 'EADDRINUSE') {
+        if ((error as NodeJS.ErrnoException).code === 'EADDRINUSE') {
           vscode.window.showErrorMessage(
             `端口 ${this.port} 已被占用，请修改配置或关闭占用该端口的程序`
           );
@@ -148,13 +150,17 @@ This MCP tool is Augment's context engine, the world's best codebase context eng
 2. Uses a proprietary retrieval/embedding model suite that produces the highest-quality recall of relevant code snippets from across the codebase
 3. Maintains a real-time index of the codebase, so the results are always up-to-date and reflects the current state of the codebase
 4. Can retrieve across different programming languages
-5. Only reflects the current state of the codebase on the disk, and has no information on version control or code history
+5. ${config.commitRetrieval
+  ? `Also searches the messages and diffs of the ${config.commitHistoryDepth} most recent commits on the current branch, so it can answer when and why code changed; commit results have paths like \`.git-history/<commit hash>\``
+  : 'Only reflects the current state of the codebase on the disk, and has no information on version control or code history'}
 
 ## When to Use
 - When you don't know which files contain the information you need
 - When you want to gather high level information about the task you are trying to accomplish
 - When you want to gather information about the codebase in general
-
+- When you want to search only part of the codebase: pass \`paths\`, \`globs\` or \`languages\` to restrict the search scope${config.commitRetrieval
+  ? '\n- When you want to know when or why some code changed (commit history is not searched when a scope is given)'
+  : ''}
 ## Good Query Examples
 - "Where is the function that handles user authentication?"
 - "What tests are there for the login functionality?"
@@ -205,37 +211,39 @@ Examples:
 - "Where is the function that handles user authentication?"
 - "What tests are there for the login functionality?"
 - "How is the database connected to the application?"`),
+          folder: z.string().optional().describe(`Optional workspace folder to search, given as the folder name or its absolute path. Omit it (or pass "all") to search every folder of a multi-root workspace; results are then grouped by folder.`),
+          paths: z.array(z.string()).optional().describe(`Optional directories or files to restrict the search to, relative to the workspace folder root (e.g. ["src/auth", "lib/session.ts"]).`),
+          globs: z.array(z.string()).optional().describe(`Optional glob patterns in .gitignore syntax to restrict the search to (e.g. ["*.test.ts", "services/**/*.go"]).`),
+          languages: z.array(z.string()).optional().describe(`Optional languages to restrict the search to, given as language names or file extensions (e.g. ["python"], ["ts", "vue"]).`),
         },
       },
-      async ({ query }: { query: string }) => {
+      async ({ query, folder, paths, globs, languages }: {
+        query: string;
+        folder?: string;
+        paths?: string[];
+        globs?: string[];
+        languages?: string[];
+      }) => {
         if (!query || typeof query !== 'string' || !query.trim()) {
           throw new Error('查询参数不能为空');
         }
 
         // 检查工作区
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        if (!vscode.workspace.workspaceFolders?.length) {
           throw new Error('未打开工作区文件夹，请先打开一个文件夹');
         }
 
-        const projectRoot = workspaceFolder.uri.fsPath;
-
         try {
-          // 使用 IndexManager 执行搜索
-          const indexManager = new IndexManager(
-            projectRoot,
-            config.baseUrl,
-            config.token,
-            config.textExtensions,
-            config.batchSize,
-            config.maxLinesPerBlob,
-            config.excludePatterns,
-            config.userGuidelines || ''
+          const projectRoots = resolveWorkspaceFolders(folder);
+
+          // 使用 IndexManager 执行搜索（多个文件夹时依次搜索）
+          const result = await searchWorkspaceFolders(
+            projectRoots,
+            query.trim(),
+            (projectRoot) => new IndexManager(projectRoot, indexManagerOptions(config)),
+            { scope: { paths, globs, languages } }
           );
 
-          // 执行代码搜索
-          const result = await indexManager.searchCodebase(query.trim());
-
           // 返回搜索结果
           return {
             content: [
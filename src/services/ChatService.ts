@@ -3,8 +3,26 @@
  */
 
 import * as vscode from 'vscode';
-import { IndexManager, IndexProgressUpdate } from '../index/manager';
+import { DialogExchange } from '../index/backend';
+import {
+  IndexManager,
+  IndexProgressUpdate,
+  OFFLINE_RESULT_MARKER,
+  indexManagerOptions,
+  isCancellationError
+} from '../index/manager';
+import { IndexJobQueue } from '../index/jobQueue';
+import { RetrievalHit, formatHitLocation, parseRetrievalResult } from '../index/retrievalResult';
+import { SearchScope, describeSearchScope, normalizeSearchScope } from '../index/searchScope';
+import {
+  getWorkspaceFolderRoot,
+  getWorkspaceFolderRoots,
+  resolveWorkspaceFolders,
+  searchWorkspaceFolders
+} from '../index/workspaceFolders';
 import { Config } from '../config';
+import { openRetrievalHit } from '../views/searchResults';
+import { SearchHistory, SearchHistoryEntry, SearchResultChanges } from './searchHistory';
 import { sendLog } from '../utils/VSCodeAdapter';
 
 /**
@@ -15,6 +33,47 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  // 搜索结果解析出的代码片段，存在时以卡片展示，content 保留原始文本供复制
+  hits?: RetrievalHit[];
+  // 搜索结果中代码片段以外的说明（例如离线检索提示）
+  notes?: string[];
+  // 与上一次相同搜索的结果相比的变化
+  changes?: SearchResultChanges;
+}
+
+// 对话中每条回复最多发送的字符数，检索结果通常很长，只保留开头部分
+const MAX_DIALOG_RESPONSE_LENGTH = 2000;
+
+/**
+ * 从聊天记录中取最近的 turns 轮问答作为检索请求的 dialog，出错或取消的问答不计入
+ */
+export function buildSearchDialog(messages: ChatMessage[], turns: number): DialogExchange[] {
+  const exchanges: DialogExchange[] = [];
+  for (let i = 0; i < messages.length - 1; i++) {
+    const request = messages[i];
+    const response = messages[i + 1];
+    if (request.role !== 'user' || response.role !== 'assistant') {
+      continue;
+    }
+    if (response.content.startsWith('❌') || response.content === '已取消') {
+      continue;
+    }
+    exchanges.push({
+      request: request.content,
+      response: response.content.length > MAX_DIALOG_RESPONSE_LENGTH
+        ? `${response.content.slice(0, MAX_DIALOG_RESPONSE_LENGTH)}\n...`
+        : response.content
+    });
+  }
+  return turns > 0 ? exchanges.slice(-turns) : [];
+}
+
+/**
+ * 搜索结果及与上一次相同搜索的差异
+ */
+export interface SearchOutcome {
+  result: string;
+  changes?: SearchResultChanges;
 }
 
 /**
@@ -28,6 +87,10 @@ export class ChatService {
 
   private hasAutoIndexed: boolean = false;
   private lastIndexProgress: IndexProgressUpdate | null = null;
+  private indexQueue: IndexJobQueue | null = null;
+  private searchHistory: SearchHistory | null = null;
+  // 当前搜索或提示词增强操作的取消令牌
+  private activeOperation: vscode.CancellationTokenSource | null = null;
 
   constructor(config: Config) {
     this.config = config;
@@ -122,9 +185,15 @@ export class ChatService {
 
   /**
    * 处理代码搜索（用于 WebviewView）
-   * 返回处理结果字符串
+   * 返回搜索结果及与上一次相同搜索的差异
+   * @param history 当前话题中之前的聊天记录，最近几轮随检索请求发送
    */
-  public async handleCodebaseSearch(userMessage: string): Promise<string> {
+  public async handleCodebaseSearch(
+    userMessage: string,
+    folder?: string,
+    scope?: SearchScope,
+    history: ChatMessage[] = []
+  ): Promise<SearchOutcome> {
     if (!userMessage.trim()) {
       throw new Error('消息不能为空');
     }
@@ -141,64 +210,60 @@ export class ChatService {
       this.hasAutoIndexed = false;
     }
 
+    const operation = this.startOperation();
     try {
-      // 使用 IndexManager 进行代码搜索（不启用提示词增强）
-      const indexManager = new IndexManager(
-        this.projectRoot,
-        this.config.baseUrl,
-        this.config.token,
-        this.config.textExtensions,
-        this.config.batchSize,
-        this.config.maxLinesPerBlob,
-        this.config.excludePatterns,
-        this.config.userGuidelines || ''
-      );
+      // 代码搜索（不启用提示词增强）
+      const projectRoots = resolveWorkspaceFolders(folder);
 
       sendLog('info', `🔍 代码搜索: ${userMessage}`);
-
-      // 执行代码搜索
-      const result = await indexManager.searchCodebase(userMessage, {
-        reporter: (update: IndexProgressUpdate) => {
-          this.reportIndexProgress(update);
+      this.logSearchScope(scope);
+
+      // 执行代码搜索（未指定文件夹时搜索全部工作区文件夹）
+      const result = await searchWorkspaceFolders(
+        projectRoots,
+        userMessage,
+        (projectRoot) => this.createIndexManager(projectRoot),
+        {
+          reporter: (update: IndexProgressUpdate) => this.reportIndexProgress(update),
+          token: operation.token,
+          scope,
+          dialog: buildSearchDialog(history, this.config.dialogTurns)
         }
-      });
+      );
 
       sendLog('info', '✅ 代码搜索完成');
-      return result || '抱歉，没有找到相关信息。';
+      const changes = await this.recordSearch(userMessage, projectRoots, scope, result);
+      return { result: result || '抱歉，没有找到相关信息。', changes };
     } catch (error) {
+      if (isCancellationError(error)) {
+        sendLog('info', '代码搜索已取消');
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
       sendLog('error', `❌ 代码搜索失败: ${errorMessage}`);
       throw new Error(friendlyMessage);
+    } finally {
+      this.finishOperation(operation);
     }
   }
 
   /**
    * 执行代码搜索并在独立 WebView 面板中显示结果（用于命令调用）
    */
-  public async searchAndShowInPanel(projectRoot: string, query: string): Promise<void> {
+  public async searchAndShowInPanel(projectRoots: string[], query: string, scope?: SearchScope): Promise<void> {
     await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: 'Ace Sidebar',
-        cancellable: false
+        cancellable: true
       },
-      async (progress: vscode.Progress<{ increment: number; message: string }>) => {
+      async (progress: vscode.Progress<{ increment: number; message: string }>, token: vscode.CancellationToken) => {
         try {
-          sendLog('info', `🔍 搜索代码库: ${projectRoot}`);
-
-          const indexManager = new IndexManager(
-            projectRoot,
-            this.config.baseUrl,
-            this.config.token,
-            this.config.textExtensions,
-            this.config.batchSize,
-            this.config.maxLinesPerBlob,
-            this.config.excludePatterns,
-            this.config.userGuidelines || ''
-          );
+          sendLog('info', `🔍 搜索代码库: ${projectRoots.join(', ')}`);
 
           sendLog('info', `🔍 搜索查询: ${query}`);
+          this.logSearchScope(scope);
 
           let lastPercent = 0;
           const reporter = (update: IndexProgressUpdate) => {
@@ -209,15 +274,28 @@ export class ChatService {
           };
 
           // 执行代码搜索
-          const result = await indexManager.searchCodebase(query, { reporter });
+          const result = await searchWorkspaceFolders(
+            projectRoots,
+            query,
+            (projectRoot) => this.createIndexManager(projectRoot),
+            { reporter, token, scope }
+          );
 
           if (lastPercent < 100) {
             progress.report({ increment: 100 - lastPercent, message: 'Complete' });
           }
+          if (result.includes(OFFLINE_RESULT_MARKER)) {
+            vscode.window.showWarningMessage('Ace Sidebar: Retrieval server unreachable, showing offline keyword results');
+          }
 
           // 显示结果
-          await this.showResultInWebView(result);
+          const changes = await this.recordSearch(query, projectRoots, scope, result);
+          await this.showResultInWebView(result, changes);
         } catch (error) {
+          if (isCancellationError(error)) {
+            sendLog('info', '搜索已取消');
+            return;
+          }
           const message = error instanceof Error ? error.message : String(error);
           sendLog('error', `搜索失败: ${message}`);
           vscode.window.showErrorMessage(`Ace Sidebar Error: ${message}`);
@@ -228,8 +306,10 @@ export class ChatService {
 
   /**
    * 在 WebView 面板中显示搜索结果
+   * 能解析出代码片段时显示为卡片，点击后在编辑器中打开对应的行范围；原始文本折叠在末尾供复制
+   * 同一搜索运行过时，标出新出现的片段并列出不再返回的片段
    */
-  private async showResultInWebView(result: string): Promise<void> {
+  private async showResultInWebView(result: string, changes?: SearchResultChanges): Promise<void> {
     const panel = vscode.window.createWebviewPanel(
       'aceSidebarResult',
       'Ace Sidebar - Search Result',
@@ -241,19 +321,58 @@ export class ChatService {
     );
 
     // 转义 HTML 特殊字符
-    const escapedResult = result
+    const escapeHtml = (text: string) => text
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;')
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&#039;');
+    const escapedResult = escapeHtml(result);
+
+    const folderNames = (vscode.workspace.workspaceFolders || []).map((folder) => folder.name);
+    const { hits, notes } = parseRetrievalResult(result, folderNames);
+    panel.webview.onDidReceiveMessage(async (message) => {
+      const hit = message.command === 'openSearchResult' ? hits[message.index] : undefined;
+      if (!hit) {
+        return;
+      }
+      try {
+        await openRetrievalHit(hit);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Ace Sidebar: Failed to open ${hit.path}: ${errorMessage}`);
+      }
+    });
+
+    let changesHtml = '';
+    if (changes) {
+      const removedHtml = changes.removed.length > 0
+        ? `<ul>${changes.removed.map((location) => `<li>${escapeHtml(location)}</li>`).join('')}</ul>`
+        : '';
+      changesHtml = `<div class="changes">Compared with the previous run (${escapeHtml(new Date(changes.previousTimestamp).toLocaleString())}): ` +
+        `${changes.addedHits.length} new, ${changes.removed.length} no longer returned${removedHtml}</div>`;
+    }
 
-    // 将代码块转换为 HTML
-    const formattedResult = escapedResult
-      .replace(/```(\w+)?\n([\s\S]*?)```/g, (match: string, lang: string | undefined, code: string) => {
-        return `<pre><code class="language-${lang || 'text'}">${code}</code></pre>`;
-      })
-      .replace(/\n/g, '<br>');
+    let formattedResult: string;
+    if (hits.length > 0) {
+      const noteHtml = notes.map((note) => `<p class="note">${escapeHtml(note)}</p>`).join('');
+      const cardHtml = hits.map((hit, index) => {
+        const location = escapeHtml(formatHitLocation(hit));
+        const folder = hit.folder ? `<span class="folder">${escapeHtml(hit.folder)}</span>` : '';
+        const badge = changes?.addedHits.includes(index) ? '<span class="badge">new</span>' : '';
+        return `<div class="card" tabindex="0" data-index="${index}" title="Open ${location}">` +
+          `<div class="card-header">${folder}<span class="location">${location}</span>${badge}</div>` +
+          `<pre><code>${escapeHtml(hit.snippet)}</code></pre></div>`;
+      }).join('');
+      formattedResult = `${noteHtml}${cardHtml}<details><summary>Raw result</summary><pre>${escapedResult}</pre></details>`;
+    } else {
+      // 将代码块转换为 HTML
+      formattedResult = escapedResult
+        .replace(/```(\w+)?\n([\s\S]*?)```/g, (match: string, lang: string | undefined, code: string) => {
+          return `<pre><code class="language-${lang || 'text'}">${code}</code></pre>`;
+        })
+        .replace(/\n/g, '<br>');
+    }
 
     panel.webview.html = `<!DOCTYPE html>
 <html lang="en">
@@ -277,11 +396,83 @@ export class ChatService {
         code {
             font-family: var(--vscode-editor-font-family);
         }
+        .note {
+            color: var(--vscode-descriptionForeground);
+        }
+        .card {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            margin-bottom: 12px;
+            cursor: pointer;
+            overflow: hidden;
+        }
+        .card:hover, .card:focus {
+            border-color: var(--vscode-focusBorder);
+            outline: none;
+        }
+        .card-header {
+            display: flex;
+            gap: 8px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .card pre {
+            margin: 0;
+            border-radius: 0;
+            max-height: 360px;
+        }
+        .location {
+            color: var(--vscode-textLink-foreground);
+        }
+        .folder {
+            color: var(--vscode-descriptionForeground);
+        }
+        .badge {
+            margin-left: auto;
+            padding: 0 6px;
+            border-radius: 8px;
+            font-size: 11px;
+            color: var(--vscode-badge-foreground);
+            background-color: var(--vscode-badge-background);
+        }
+        .changes {
+            margin-bottom: 12px;
+            padding: 8px 10px;
+            border-left: 3px solid var(--vscode-textLink-foreground);
+            background-color: var(--vscode-textBlockQuote-background);
+        }
+        .changes ul {
+            margin: 4px 0 0;
+            padding-left: 20px;
+            color: var(--vscode-descriptionForeground);
+        }
+        summary {
+            cursor: pointer;
+            color: var(--vscode-descriptionForeground);
+        }
     </style>
 </head>
 <body>
     <h2>Search Result</h2>
+    ${changesHtml}
     <div>${formattedResult}</div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('.card').forEach((card) => {
+            const open = () => vscode.postMessage({ command: 'openSearchResult', index: Number(card.dataset.index) });
+            card.addEventListener('click', () => {
+                // 选中文本时不跳转，便于复制
+                if (!window.getSelection().toString()) {
+                    open();
+                }
+            });
+            card.addEventListener('keydown', (event) => {
+                if (event.key === 'Enter') {
+                    open();
+                }
+            });
+        });
+    </script>
 </body>
 </html>`;
   }
@@ -290,7 +481,7 @@ export class ChatService {
    * 处理提示词增强（用于 WebviewView）
    * 返回增强后的提示词
    */
-  public async handlePromptEnhancement(userMessage: string): Promise<string> {
+  public async handlePromptEnhancement(userMessage: string, folder?: string): Promise<string> {
     if (!userMessage.trim()) {
       throw new Error('消息不能为空');
     }
@@ -307,18 +498,10 @@ export class ChatService {
       this.hasAutoIndexed = false;
     }
 
+    const operation = this.startOperation();
     try {
       // 使用 IndexManager 进行提示词增强
-      const indexManager = new IndexManager(
-        this.projectRoot,
-        this.config.baseUrl,
-        this.config.token,
-        this.config.textExtensions,
-        this.config.batchSize,
-        this.config.maxLinesPerBlob,
-        this.config.excludePatterns,
-        this.config.userGuidelines || ''
-      );
+      const indexManager = this.createIndexManager(this.getEnhancementRoot(folder));
 
       sendLog('info', `✨ 提示词增强: ${userMessage}`);
 
@@ -326,24 +509,37 @@ export class ChatService {
       const enhancedQuery = await indexManager.enhancePrompt(userMessage, {
         reporter: (update: IndexProgressUpdate) => {
           this.reportIndexProgress(update);
-        }
+        },
+        token: operation.token
       });
 
       sendLog('info', '✅ 提示词增强完成');
       return enhancedQuery;
     } catch (error) {
+      if (isCancellationError(error)) {
+        sendLog('info', '提示词增强已取消');
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
       sendLog('error', `❌ 提示词增强失败: ${errorMessage}`);
       throw new Error(friendlyMessage);
+    } finally {
+      this.finishOperation(operation);
     }
   }
 
   /**
    * 处理用户消息（用于 WebviewView）
-   * 返回处理结果字符串（仅执行代码搜索）
+   * 返回搜索结果及与上一次相同搜索的差异（仅执行代码搜索）
+   * @param history 当前话题中之前的聊天记录，最近几轮随检索请求发送
    */
-  public async handleMessageForView(userMessage: string): Promise<string> {
+  public async handleMessageForView(
+    userMessage: string,
+    folder?: string,
+    scope?: SearchScope,
+    history: ChatMessage[] = []
+  ): Promise<SearchOutcome> {
     if (!userMessage.trim()) {
       throw new Error('消息不能为空');
     }
@@ -360,35 +556,40 @@ export class ChatService {
       this.hasAutoIndexed = false;
     }
 
+    const operation = this.startOperation();
     try {
-      // 使用 IndexManager 进行搜索
-      const indexManager = new IndexManager(
-        this.projectRoot,
-        this.config.baseUrl,
-        this.config.token,
-        this.config.textExtensions,
-        this.config.batchSize,
-        this.config.maxLinesPerBlob,
-        this.config.excludePatterns,
-        this.config.userGuidelines || ''
-      );
+      const projectRoots = resolveWorkspaceFolders(folder);
 
       sendLog('info', `💬 用户消息: ${userMessage}`);
-
-      // 执行代码搜索
-      const result = await indexManager.searchCodebase(userMessage, {
-        reporter: (update: IndexProgressUpdate) => {
-          this.reportIndexProgress(update);
+      this.logSearchScope(scope);
+
+      // 执行代码搜索（未指定文件夹时搜索全部工作区文件夹）
+      const result = await searchWorkspaceFolders(
+        projectRoots,
+        userMessage,
+        (projectRoot) => this.createIndexManager(projectRoot),
+        {
+          reporter: (update: IndexProgressUpdate) => this.reportIndexProgress(update),
+          token: operation.token,
+          scope,
+          dialog: buildSearchDialog(history, this.config.dialogTurns)
         }
-      });
+      );
 
       sendLog('info', '✅ 聊天回复已生成');
-      return result || '抱歉，没有找到相关信息。';
+      const changes = await this.recordSearch(userMessage, projectRoots, scope, result);
+      return { result: result || '抱歉，没有找到相关信息。', changes };
     } catch (error) {
+      if (isCancellationError(error)) {
+        sendLog('info', '代码搜索已取消');
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
       sendLog('error', `❌ 聊天处理失败: ${errorMessage}`);
       throw new Error(friendlyMessage);
+    } finally {
+      this.finishOperation(operation);
     }
   }
 
@@ -445,24 +646,21 @@ export class ChatService {
     this.updateWebview();
 
     try {
-      // 使用 IndexManager 进行搜索
-      const indexManager = new IndexManager(
-        this.projectRoot,
-        this.config.baseUrl,
-        this.config.token,
-        this.config.textExtensions,
-        this.config.batchSize,
-        this.config.maxLinesPerBlob,
-        this.config.excludePatterns,
-        this.config.userGuidelines || ''
-      );
-
       sendLog('info', `💬 用户消息: ${userMessage}`);
 
-      // 执行代码搜索
-      const result = await indexManager.searchCodebase(userMessage, {
-        reporter: (update: IndexProgressUpdate) => this.reportIndexProgress(update)
-      });
+      // 搜索全部工作区文件夹
+      const projectRoots = getWorkspaceFolderRoots();
+      const result = await searchWorkspaceFolders(
+        projectRoots,
+        userMessage,
+        (projectRoot) => this.createIndexManager(projectRoot),
+        {
+          reporter: (update: IndexProgressUpdate) => this.reportIndexProgress(update),
+          // 不含刚加入的用户消息和加载消息
+          dialog: buildSearchDialog(this.messages.slice(0, -2), this.config.dialogTurns)
+        }
+      );
+      await this.recordSearch(userMessage, projectRoots, undefined, result);
 
       // 移除加载消息，添加实际回复
       this.messages.pop();
@@ -494,6 +692,46 @@ export class ChatService {
     }
   }
 
+  /**
+   * 在独立面板中重新运行历史记录中的搜索，已移除的工作区文件夹会被忽略
+   */
+  public async rerunSearch(entry: SearchHistoryEntry): Promise<void> {
+    const currentRoots = getWorkspaceFolderRoots();
+    if (currentRoots.length === 0) {
+      vscode.window.showErrorMessage('请先打开一个工作区文件夹');
+      return;
+    }
+    const projectRoots = entry.projectRoots.filter((projectRoot) => currentRoots.includes(projectRoot));
+    await this.searchAndShowInPanel(projectRoots.length > 0 ? projectRoots : currentRoots, entry.query, entry.scope);
+  }
+
+  /**
+   * 记录到搜索历史，历史写入失败不影响搜索结果
+   */
+  private async recordSearch(
+    query: string,
+    projectRoots: string[],
+    scope: SearchScope | undefined,
+    result: string
+  ): Promise<SearchResultChanges | undefined> {
+    if (!this.searchHistory) {
+      return undefined;
+    }
+    try {
+      return await this.searchHistory.record(query, projectRoots, scope, result);
+    } catch (error) {
+      sendLog('warning', `Failed to save search history: ${error}`);
+      return undefined;
+    }
+  }
+
+  private logSearchScope(scope: SearchScope | undefined): void {
+    const normalized = normalizeSearchScope(scope);
+    if (normalized) {
+      sendLog('info', `🎯 搜索范围: ${describeSearchScope(normalized)}`);
+    }
+  }
+
   /**
    * 获取友好的错误消息
    */
@@ -539,6 +777,42 @@ export class ChatService {
 
   private progressReporter?: (update: IndexProgressUpdate) => void;
 
+  /**
+   * 设置搜索历史，代码搜索完成后记录查询和结果位置
+   */
+  public setSearchHistory(history: SearchHistory): void {
+    this.searchHistory = history;
+  }
+
+  /**
+   * 设置索引任务队列，自动索引通过队列执行，避免与文件同步并发
+   */
+  public setIndexQueue(queue: IndexJobQueue): void {
+    this.indexQueue = queue;
+  }
+
+  /**
+   * 取消当前的搜索、提示词增强以及正在执行的索引任务
+   */
+  public cancelActiveOperation(): void {
+    if (this.activeOperation) {
+      this.activeOperation.cancel();
+    }
+    this.indexQueue?.cancel();
+  }
+
+  private startOperation(): vscode.CancellationTokenSource {
+    this.activeOperation = new vscode.CancellationTokenSource();
+    return this.activeOperation;
+  }
+
+  private finishOperation(operation: vscode.CancellationTokenSource): void {
+    if (this.activeOperation === operation) {
+      this.activeOperation = null;
+    }
+    operation.dispose();
+  }
+
   /**
    * 设置进度报告器（用于 WebviewView）
    */
@@ -567,27 +841,45 @@ export class ChatService {
 
     this.hasAutoIndexed = true;
 
-    try {
-      const indexManager = new IndexManager(
-        this.projectRoot,
-        this.config.baseUrl,
-        this.config.token,
-        this.config.textExtensions,
-        this.config.batchSize,
-        this.config.maxLinesPerBlob,
-        this.config.excludePatterns,
-        this.config.userGuidelines || ''
-      );
+    // 每个工作区文件夹分别建立索引
+    for (const projectRoot of getWorkspaceFolderRoots()) {
+      if (this.indexQueue) {
+        await this.indexQueue.enqueueFullIndex(projectRoot);
+        continue;
+      }
 
-      await indexManager.indexProject((update) => this.reportIndexProgress(update));
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.reportIndexProgress({
-        stage: 'error',
-        message: errorMessage,
-        percent: 100
-      });
+      try {
+        const indexManager = this.createIndexManager(projectRoot);
+        await indexManager.indexProject((update) => this.reportIndexProgress(update));
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.reportIndexProgress({
+          stage: 'error',
+          message: errorMessage,
+          percent: 100
+        });
+      }
+    }
+  }
+
+  /**
+   * 使用当前配置为工作区文件夹创建 IndexManager
+   */
+  private createIndexManager(projectRoot: string): IndexManager {
+    return new IndexManager(projectRoot, indexManagerOptions(this.config));
+  }
+
+  /**
+   * 提示词增强使用的文件夹：指定的单个文件夹，否则为当前文件所在文件夹
+   */
+  private getEnhancementRoot(folder?: string): string {
+    const projectRoots = resolveWorkspaceFolders(folder);
+    if (projectRoots.length === 1) {
+      return projectRoots[0];
     }
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeRoot = activeUri?.scheme === 'file' ? getWorkspaceFolderRoot(activeUri.fsPath) : undefined;
+    return activeRoot || projectRoots[0];
   }
 
 
@@ -913,7 +1205,8 @@ export class ChatService {
             }
             const percent = typeof update.percent === 'number' ? update.percent : 0;
             const safePercent = Math.max(0, Math.min(100, percent));
-            indexStatusText.textContent = update.message || 'Indexing...';
+            const queued = update.queued > 0 ? ' · ' + update.queued + ' queued' : '';
+            indexStatusText.textContent = (update.message || 'Indexing...') + queued;
             indexProgressBar.style.width = safePercent + '%';
             indexProgressBar.className = update.stage === 'error' ? 'progress-bar error' : 'progress-bar';
         }
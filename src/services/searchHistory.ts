@@ -0,0 +1,127 @@
+/**
+ * 搜索历史 - 按工作区保存在 workspaceState 中，同一查询（相同文件夹和范围）只保留一条记录
+ * 每条记录保存最近一次结果中的片段位置，再次运行时与之比较，得出新出现和不再返回的片段
+ */
+
+import crypto from 'crypto';
+import * as vscode from 'vscode';
+import { RetrievalHit, formatHitLocation, parseRetrievalResult } from '../index/retrievalResult';
+import { SearchScope, normalizeSearchScope } from '../index/searchScope';
+
+const STATE_KEY = 'ace-sidebar.searchHistory';
+const MAX_ENTRIES = 50;
+
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  // 搜索的工作区文件夹根路径
+  projectRoots: string[];
+  scope?: SearchScope;
+  timestamp: number;
+  // 最近一次结果中的片段位置，例如 `src/a.ts:10-24`，多文件夹时带文件夹名前缀
+  locations: string[];
+  // 最近一次与上一次结果相比的变化数量
+  lastChanges?: { added: number; removed: number };
+}
+
+/**
+ * 本次结果与同一查询上一次结果的差异
+ */
+export interface SearchResultChanges {
+  previousTimestamp: number;
+  // 本次新出现的片段在解析结果 hits 中的下标
+  addedHits: number[];
+  // 上一次返回、本次不再返回的片段位置
+  removed: string[];
+}
+
+function hitKey(hit: RetrievalHit): string {
+  return hit.folder ? `${hit.folder}: ${formatHitLocation(hit)}` : formatHitLocation(hit);
+}
+
+function entryId(query: string, projectRoots: string[], scope: SearchScope | undefined): string {
+  return crypto.createHash('sha256')
+    .update(JSON.stringify([query, [...projectRoots].sort(), scope || null]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export class SearchHistory implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * 按最近运行时间排序
+   */
+  public getEntries(): SearchHistoryEntry[] {
+    return this.state.get<SearchHistoryEntry[]>(STATE_KEY, []);
+  }
+
+  public get(id: string): SearchHistoryEntry | undefined {
+    return this.getEntries().find((entry) => entry.id === id);
+  }
+
+  /**
+   * 记录一次搜索，返回与上一次结果的差异；首次搜索或结果为错误信息时返回 undefined
+   */
+  public async record(
+    query: string,
+    projectRoots: string[],
+    scope: SearchScope | undefined,
+    result: string
+  ): Promise<SearchResultChanges | undefined> {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery || result.startsWith('Error:')) {
+      return undefined;
+    }
+
+    const normalizedScope = normalizeSearchScope(scope);
+    const id = entryId(trimmedQuery, projectRoots, normalizedScope);
+    const folderNames = (vscode.workspace.workspaceFolders || []).map((folder) => folder.name);
+    const locations = parseRetrievalResult(result, folderNames).hits.map(hitKey);
+
+    const entries = this.getEntries();
+    const previous = entries.find((entry) => entry.id === id);
+    let changes: SearchResultChanges | undefined;
+    if (previous) {
+      const before = new Set(previous.locations);
+      const after = new Set(locations);
+      changes = {
+        previousTimestamp: previous.timestamp,
+        addedHits: locations.flatMap((location, index) => (before.has(location) ? [] : [index])),
+        removed: previous.locations.filter((location) => !after.has(location))
+      };
+    }
+
+    const entry: SearchHistoryEntry = {
+      id,
+      query: trimmedQuery,
+      projectRoots,
+      ...(normalizedScope ? { scope: normalizedScope } : {}),
+      timestamp: Date.now(),
+      locations,
+      ...(changes ? { lastChanges: { added: changes.addedHits.length, removed: changes.removed.length } } : {})
+    };
+    await this.save([entry, ...entries.filter((item) => item.id !== id)].slice(0, MAX_ENTRIES));
+    return changes;
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.save(this.getEntries().filter((entry) => entry.id !== id));
+  }
+
+  public async clear(): Promise<void> {
+    await this.save([]);
+  }
+
+  private async save(entries: SearchHistoryEntry[]): Promise<void> {
+    await this.state.update(STATE_KEY, entries);
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * 本地模拟服务端 - 实现 /batch-upload、/agents/codebase-retrieval 和 JSONL 格式的 /chat-stream
+ * 记录收到的请求，并可按端点注入错误状态码、篡改返回的 blob 名称
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest<T = Record<string, unknown>> {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: T;
+}
+
+/**
+ * 各端点的请求体中测试用到的字段，通过 requestsTo 的类型参数指定
+ */
+export interface BatchUploadBody {
+  blobs: Array<{ path: string; content: string }>;
+}
+
+export interface RetrievalBody {
+  information_request: string;
+  blobs: { added_blobs: string[]; deleted_blobs: string[] };
+  dialog: Array<{ request_message: string; response_text: string }>;
+  enable_commit_retrieval: boolean;
+}
+
+export interface ChatStreamBody {
+  nodes: Array<{ text_node?: { content: string } }>;
+}
+
+export interface MockServerOptions {
+  // 期望的 Bearer 令牌，不一致时返回 401
+  token?: string;
+}
+
+export const BATCH_UPLOAD = '/batch-upload';
+export const CODEBASE_RETRIEVAL = '/agents/codebase-retrieval';
+export const CHAT_STREAM = '/chat-stream';
+
+/**
+ * 默认的 /chat-stream 响应：增强提示词被拆分在多行 text 中
+ */
+export function defaultChatStreamLines(prompt: string): object[] {
+  return [
+    { text: '### BEGIN RESPONSE ###\nHere is an enhanced version of the original instruction:\n<augment-' },
+    { text: `enhanced-prompt>${prompt}</augment-enhanced-prompt>\n` },
+    { text: '### END RESPONSE ###' }
+  ];
+}
+
+export class MockBackendServer {
+  public readonly requests: RecordedRequest[] = [];
+  // 已上传的 blob（按服务端计算的名称）
+  public readonly blobs = new Map<string, { path: string; content: string }>();
+  // 为 true 时 /batch-upload 返回错误的 blob 名称
+  public tamperBlobNames = false;
+  // /chat-stream 返回的 JSONL 行，为 null 时使用 defaultChatStreamLines
+  public chatStreamLines: object[] | null = null;
+
+  private server: http.Server | null = null;
+  private failures = new Map<string, number[]>();
+  private options: MockServerOptions;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+  }
+
+  public get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock server is not running');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * 接下来对该端点的请求依次返回这些状态码
+   */
+  public failNext(endpoint: string, ...statuses: number[]): void {
+    this.failures.set(endpoint, [...(this.failures.get(endpoint) || []), ...statuses]);
+  }
+
+  public requestsTo<T = Record<string, unknown>>(endpoint: string): Array<RecordedRequest<T>> {
+    return this.requests.filter((request) => request.url === endpoint) as Array<RecordedRequest<T>>;
+  }
+
+  /**
+   * 按上传顺序返回所有 /batch-upload 请求中的 blob
+   */
+  public uploadedBlobs(): BatchUploadBody['blobs'] {
+    return this.requestsTo<BatchUploadBody>(BATCH_UPLOAD).flatMap((request) => request.body.blobs);
+  }
+
+  public uploadedPaths(): string[] {
+    return this.uploadedBlobs().map((blob) => blob.path);
+  }
+
+  public reset(): void {
+    this.requests.length = 0;
+    this.failures.clear();
+    this.tamperBlobNames = false;
+    this.chatStreamLines = null;
+  }
+
+  public start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    return new Promise((resolve) => {
+      this.server!.listen(0, '127.0.0.1', () => resolve(this.url));
+    });
+  }
+
+  public stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString('utf-8')));
+    req.on('end', () => {
+      const url = req.url || '';
+      let body: RecordedRequest['body'] = {};
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        return this.sendJson(res, 400, { error: 'invalid json' });
+      }
+      this.requests.push({ url, headers: req.headers, body });
+
+      if (this.options.token && req.headers.authorization !== `Bearer ${this.options.token}`) {
+        return this.sendJson(res, 401, { error: 'unauthorized' });
+      }
+
+      const failure = this.failures.get(url)?.shift();
+      if (failure) {
+        return this.sendJson(res, failure, { error: `injected ${failure}` });
+      }
+
+      switch (url) {
+        case BATCH_UPLOAD:
+          return this.handleBatchUpload(res, body as Partial<BatchUploadBody>);
+        case CODEBASE_RETRIEVAL:
+          return this.handleRetrieval(res, body as Partial<RetrievalBody>);
+        case CHAT_STREAM:
+          return this.handleChatStream(res, body as Partial<ChatStreamBody>);
+        default:
+          return this.sendJson(res, 404, { error: 'not found' });
+      }
+    });
+  }
+
+  private handleBatchUpload(res: http.ServerResponse, body: Partial<BatchUploadBody>): void {
+    const blobs = body.blobs || [];
+    const names = blobs.map((blob) => {
+      const name = crypto.createHash('sha256').update(blob.path).update(blob.content).digest('hex');
+      this.blobs.set(name, { path: blob.path, content: blob.content });
+      return this.tamperBlobNames ? name.split('').reverse().join('') : name;
+    });
+    this.sendJson(res, 200, { blob_names: names });
+  }
+
+  /**
+   * 在请求引用的 blob 中按关键词匹配，以服务端格式返回
+   */
+  private handleRetrieval(res: http.ServerResponse, body: Partial<RetrievalBody>): void {
+    const words = String(body.information_request || '')
+      .toLowerCase()
+      .split(/\W+/)
+      .filter(Boolean);
+    const sections: string[] = [];
+    for (const name of body.blobs?.added_blobs || []) {
+      const blob = this.blobs.get(name);
+      if (blob && words.some((word) => blob.content.toLowerCase().includes(word))) {
+        sections.push(`Path: ${blob.path}\n${blob.content}`);
+      }
+    }
+    const formatted = sections.length > 0 ? `The following code sections were retrieved:\n${sections.join('\n...\n')}` : '';
+    this.sendJson(res, 200, { formatted_retrieval: formatted });
+  }
+
+  /**
+   * 逐行写出 JSONL，每行拆成两次写入，模拟分片到达的流式响应
+   */
+  private handleChatStream(res: http.ServerResponse, body: Partial<ChatStreamBody>): void {
+    const instruction = body.nodes?.[0]?.text_node?.content || '';
+    const original = instruction.split('Here is my original instruction:').pop()?.trim() || '';
+    const lines = this.chatStreamLines || defaultChatStreamLines(`Enhanced: ${original}`);
+
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    const chunks = lines.flatMap((line) => {
+      const text = JSON.stringify(line) + '\n';
+      const middle = Math.floor(text.length / 2);
+      return [text.slice(0, middle), text.slice(middle)];
+    });
+    const writeNext = (): void => {
+      const chunk = chunks.shift();
+      if (chunk === undefined) {
+        res.end();
+        return;
+      }
+      res.write(chunk);
+      setImmediate(writeNext);
+    };
+    writeNext();
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, data: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * 测试入口 - 先替换 vscode 模块，再加载 suite 目录下的所有测试文件
+ * 使用 Node 自带的 node:test 运行，失败时进程以非零状态退出
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { installVscodeStub } from './vscodeStub';
+
+installVscodeStub();
+
+const suiteDir = path.join(__dirname, 'suite');
+const testFiles = fs.readdirSync(suiteDir)
+  .filter((file) => file.endsWith('.test.js'))
+  .sort();
+
+for (const file of testFiles) {
+  require(path.join(suiteDir, file));
+}
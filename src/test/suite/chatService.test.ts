@@ -0,0 +1,31 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { ChatMessage, buildSearchDialog } from '../../services/ChatService';
+
+function message(role: ChatMessage['role'], content: string): ChatMessage {
+  return { id: content, role, content, timestamp: 0 };
+}
+
+describe('buildSearchDialog', () => {
+  const messages = [
+    message('user', 'first'),
+    message('assistant', 'result 1'),
+    message('user', 'broken'),
+    message('assistant', '❌ 错误: 无法连接到服务器'),
+    message('user', 'second'),
+    message('assistant', 'result 2'),
+    message('user', 'third'),
+    message('assistant', 'x'.repeat(5000))
+  ];
+
+  it('keeps the most recent successful exchanges', () => {
+    const dialog = buildSearchDialog(messages, 2);
+    assert.deepStrictEqual(dialog.map((exchange) => exchange.request), ['second', 'third']);
+    assert.strictEqual(dialog[0].response, 'result 2');
+    assert.ok(dialog[1].response.length < 5000);
+  });
+
+  it('sends nothing when the window is zero', () => {
+    assert.deepStrictEqual(buildSearchDialog(messages, 0), []);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { ContentChunk, chunkContent } from '../../index/chunker';
+
+function lineRanges(chunks: ContentChunk[]): Array<[number, number]> {
+  return chunks.map((chunk) => [chunk.startLine, chunk.endLine]);
+}
+
+describe('chunkContent', () => {
+  it('cuts at declarations together with their leading comments', () => {
+    const content = [
+      "import { log } from './log';",
+      '',
+      '/**',
+      ' * Adds two numbers.',
+      ' */',
+      'export function add(a: number, b: number) {',
+      '  return a + b;',
+      '}',
+      '',
+      'export function sub(a: number, b: number) {',
+      '  return a - b;',
+      '}',
+      ''
+    ].join('\n');
+
+    const chunks = chunkContent('src/math.ts', content, 8);
+    assert.deepStrictEqual(lineRanges(chunks), [[1, 2], [3, 9], [10, 12]]);
+    assert.ok(chunks[1].content.startsWith('/**\n * Adds two numbers.'));
+    assert.strictEqual(chunks.map((chunk) => chunk.content).join(''), content);
+    assert.deepStrictEqual(chunkContent('src/math.ts', content, 8), chunks);
+  });
+
+  it('never exceeds the maximum chunk size', () => {
+    const methods = [3, 12, 2, 2, 7, 1].map((bodyLines, index) => [
+      `  public method${index}(value: number) {`,
+      ...Array.from({ length: bodyLines }, (_, line) => `    const v${line} = value + ${line};`),
+      '  }',
+      ''
+    ].join('\n'));
+    const content = `export class Service {\n${methods.join('\n')}}\n`;
+
+    const chunks = chunkContent('src/service.ts', content, 5);
+    let nextLine = 1;
+    for (const chunk of chunks) {
+      assert.strictEqual(chunk.startLine, nextLine);
+      assert.ok(chunk.endLine - chunk.startLine + 1 <= 5, `chunk ${chunk.startLine}-${chunk.endLine} is too long`);
+      nextLine = chunk.endLine + 1;
+    }
+    assert.strictEqual(chunks.map((chunk) => chunk.content).join(''), content);
+  });
+
+  it('falls back to fixed line counts for unknown languages and oversized declarations', () => {
+    const text = Array.from({ length: 10 }, (_, line) => `line ${line + 1}\n`).join('');
+    assert.deepStrictEqual(lineRanges(chunkContent('notes.txt', text, 4)), [[1, 4], [5, 8], [9, 10]]);
+
+    const body = Array.from({ length: 8 }, (_, line) => `  const v${line} = ${line};\n`).join('');
+    const declaration = `export function big() {\n${body}}\n`;
+    assert.deepStrictEqual(lineRanges(chunkContent('src/big.ts', declaration, 4)), [[1, 4], [5, 8], [9, 10]]);
+  });
+
+  it('keeps small files as a single chunk', () => {
+    assert.deepStrictEqual(chunkContent('src/a.ts', 'export const a = 1;\n', 800), [
+      { content: 'export const a = 1;\n', startLine: 1, endLine: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'assert';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  commitPath,
+  formatCommitDocument,
+  listRecentCommits,
+  parseCommitPath,
+  readCommitFiles,
+  readCommits,
+  readHeadCommit
+} from '../../index/commitHistory';
+
+describe('commitHistory', () => {
+  let projectRoot = '';
+
+  const git = (...args: string[]): string => execFileSync(
+    'git',
+    ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args],
+    { cwd: projectRoot, encoding: 'utf-8' }
+  );
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-sidebar-git-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('maps commits to virtual paths and back', () => {
+    const hash = 'a'.repeat(40);
+    assert.strictEqual(commitPath(hash), `.git-history/${hash}`);
+    assert.strictEqual(parseCommitPath(commitPath(hash)), hash);
+    assert.strictEqual(parseCommitPath(`${commitPath(hash)}#chunk2of3`), hash);
+    assert.strictEqual(parseCommitPath('src/.git-history/abc1234'), undefined);
+    assert.strictEqual(parseCommitPath('.git-history/notahash'), undefined);
+  });
+
+  it('reads messages, diffs and changed files of recent commits', async () => {
+    assert.strictEqual(await readHeadCommit(projectRoot), undefined);
+
+    git('init', '-q');
+    fs.writeFileSync(path.join(projectRoot, 'pool.ts'), 'export const size = 2;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add connection pool');
+    fs.writeFileSync(path.join(projectRoot, 'pool.ts'), 'export const size = 8;\n');
+    git('commit', '-q', '-am', 'Raise pool size\n\nPeak traffic exhausted the pool.');
+
+    const head = await readHeadCommit(projectRoot);
+    const hashes = await listRecentCommits(projectRoot, 5);
+    assert.strictEqual(hashes.length, 2);
+    assert.strictEqual(hashes[0], head);
+
+    const [latest, first] = await readCommits(projectRoot, hashes);
+    assert.strictEqual(latest.hash, head);
+    assert.strictEqual(latest.author, 'Test <test@example.com>');
+    assert.strictEqual(latest.message, 'Raise pool size\n\nPeak traffic exhausted the pool.');
+    assert.match(latest.diff, /^-export const size = 2;$/m);
+    assert.match(latest.diff, /^\+export const size = 8;$/m);
+    assert.strictEqual(first.message, 'Add connection pool');
+
+    const document = formatCommitDocument(latest);
+    assert.ok(document.startsWith(`commit ${head}\nAuthor: Test <test@example.com>\n`));
+    assert.match(document, /^ {4}Peak traffic exhausted the pool\.$/m);
+
+    assert.deepStrictEqual(await readCommitFiles(projectRoot, hashes[0]), [{ status: 'M', path: 'pool.ts' }]);
+    assert.deepStrictEqual(await readCommitFiles(projectRoot, hashes[1]), [{ status: 'A', path: 'pool.ts' }]);
+  });
+});
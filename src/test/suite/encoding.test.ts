@@ -0,0 +1,28 @@
+import assert from 'assert';
+import iconv from 'iconv-lite';
+import { describe, it } from 'node:test';
+import { decodeBuffer } from '../../index/encoding';
+
+describe('decodeBuffer', () => {
+  it('prefers UTF-8 over a stale UTF-16 encoding from the previous run', () => {
+    // 偶数长度，按 UTF-16 解码不会出现替换字符
+    const content = 'export const name = "héllo";\n';
+    const buffer = Buffer.from(content, 'utf-8');
+    assert.strictEqual(buffer.length % 2, 0);
+
+    assert.deepStrictEqual(decodeBuffer(buffer, undefined, 'utf-16le'), { content, encoding: 'utf-8' });
+    assert.deepStrictEqual(decodeBuffer(buffer, undefined, 'utf-16be'), { content, encoding: 'utf-8' });
+  });
+
+  it('keeps the previous encoding when UTF-8 fails', () => {
+    const content = '// 中文注释\nconst a = 1;\n';
+    assert.deepStrictEqual(decodeBuffer(iconv.encode(content, 'gbk'), undefined, 'gbk'), { content, encoding: 'gbk' });
+  });
+
+  it('still reads UTF-16 with a BOM or a recognizable byte pattern', () => {
+    const content = 'const a = 1;\n';
+    const withBom = Buffer.concat([Buffer.from([0xff, 0xfe]), iconv.encode(content, 'utf-16le')]);
+    assert.deepStrictEqual(decodeBuffer(withBom, undefined, 'utf-8'), { content, encoding: 'utf-16le' });
+    assert.deepStrictEqual(decodeBuffer(iconv.encode(content, 'utf-16be')), { content, encoding: 'utf-16be' });
+  });
+});
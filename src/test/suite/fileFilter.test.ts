@@ -0,0 +1,34 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { DEFAULT_FILE_LIMITS, detectGeneratedContent } from '../../index/fileFilter';
+
+const LONG_PARAGRAPH = 'This paragraph is soft-wrapped by the editor instead of broken into lines. '.repeat(40);
+
+describe('detectGeneratedContent', () => {
+  it('keeps documents with long soft-wrapped paragraphs', () => {
+    const readme = `# Project\n\n${LONG_PARAGRAPH}\n\n${LONG_PARAGRAPH}\n`;
+    assert.ok(LONG_PARAGRAPH.length > DEFAULT_FILE_LIMITS.maxLineLength);
+
+    assert.strictEqual(detectGeneratedContent('README.md', readme, DEFAULT_FILE_LIMITS), null);
+    assert.strictEqual(detectGeneratedContent('docs/notes.txt', readme, DEFAULT_FILE_LIMITS), null);
+  });
+
+  it('skips minified code by its longest and average line length', () => {
+    const statement = 'var a=function(b){return b*2};';
+    const bundle = `${statement.repeat(50)}\n`;
+    assert.deepStrictEqual(detectGeneratedContent('dist/app.js', bundle, DEFAULT_FILE_LIMITS), {
+      reason: 'minified',
+      detail: `line of ${bundle.length - 1} characters exceeds ${DEFAULT_FILE_LIMITS.maxLineLength}`
+    });
+
+    // 每行都未超过上限，但平均行长过长
+    const lines = `${statement.repeat(20)}\n`.repeat(10);
+    assert.strictEqual(detectGeneratedContent('dist/app.js', lines, DEFAULT_FILE_LIMITS)?.reason, 'minified');
+    assert.strictEqual(detectGeneratedContent('src/app.js', 'const a = 1;\n'.repeat(200), DEFAULT_FILE_LIMITS), null);
+  });
+
+  it('recognizes minified file names and generated markers', () => {
+    assert.strictEqual(detectGeneratedContent('vendor/lib.min.js', 'x', DEFAULT_FILE_LIMITS)?.reason, 'minified');
+    assert.strictEqual(detectGeneratedContent('api.pb.go', '// Code generated by protoc. DO NOT EDIT.\n', DEFAULT_FILE_LIMITS)?.reason, 'generated');
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { withFileLock, writeFileAtomic } from '../../utils/fileLock';
+
+describe('fileLock', () => {
+  let dir = '';
+  let filePath = '';
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-sidebar-lock-'));
+    filePath = path.join(dir, 'index.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replaces the file without leaving temporary files', () => {
+    writeFileAtomic(filePath, 'old');
+    writeFileAtomic(filePath, 'new');
+
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), 'new');
+    assert.deepStrictEqual(fs.readdirSync(dir), ['index.json']);
+  });
+
+  it('holds the lock file while the callback runs and removes it afterwards', async () => {
+    const result = await withFileLock(filePath, () => fs.existsSync(`${filePath}.lock`));
+
+    assert.strictEqual(result, true);
+    assert.strictEqual(fs.existsSync(`${filePath}.lock`), false);
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    await assert.rejects(withFileLock(filePath, () => {
+      throw new Error('boom');
+    }), /boom/);
+    assert.strictEqual(fs.existsSync(`${filePath}.lock`), false);
+  });
+
+  it('waits for a held lock without blocking the event loop', async () => {
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+    let released = false;
+    setTimeout(() => {
+      released = true;
+      fs.unlinkSync(lockPath);
+    }, 100);
+
+    assert.strictEqual(await withFileLock(filePath, () => released), true);
+  });
+
+  it('takes over a lock left by a process that has exited', async () => {
+    // 不存在的进程号
+    fs.writeFileSync(`${filePath}.lock`, JSON.stringify({ pid: 2147483646, acquiredAt: Date.now() }));
+
+    assert.strictEqual(await withFileLock(filePath, () => 'acquired'), 'acquired');
+    assert.strictEqual(fs.existsSync(`${filePath}.lock`), false);
+  });
+
+  it('takes over a lock that has been held for too long', async () => {
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid, acquiredAt: 0 }));
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, past, past);
+
+    assert.strictEqual(await withFileLock(filePath, () => 'acquired'), 'acquired');
+  });
+});
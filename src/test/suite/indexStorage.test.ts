@@ -0,0 +1,157 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { IndexStorage, IndexStore } from '../../index/indexStorage';
+
+function createStore(fileMap: Record<string, string[]>, deleted: string[] = []): IndexStore {
+  const fileStats: IndexStore['file_stats'] = {};
+  for (const filePath of Object.keys(fileMap)) {
+    fileStats[filePath] = { mtime: 1, size: 1 };
+  }
+  return {
+    version: 3,
+    blob_names: [...new Set(Object.values(fileMap).flat())],
+    file_map: fileMap,
+    file_stats: fileStats,
+    deleted_blobs: deleted,
+    skipped_files: {},
+    failed_files: {},
+    synced_at: Date.now(),
+    backend: 'remote'
+  };
+}
+
+/**
+ * 基于 base 修改部分文件，未修改的条目共享引用（与 IndexManager 的写法一致）
+ */
+function withFiles(base: IndexStore, changes: Record<string, string[] | null>): IndexStore {
+  const fileMap = { ...base.file_map };
+  const fileStats = { ...base.file_stats };
+  for (const [filePath, blobs] of Object.entries(changes)) {
+    if (blobs) {
+      fileMap[filePath] = blobs;
+      fileStats[filePath] = { mtime: Date.now(), size: blobs.length };
+    } else {
+      delete fileMap[filePath];
+      delete fileStats[filePath];
+    }
+  }
+  const blobNames = [...new Set(Object.values(fileMap).flat())];
+  const removed = base.blob_names.filter((name) => !blobNames.includes(name));
+  return { ...base, blob_names: blobNames, file_map: fileMap, file_stats: fileStats, deleted_blobs: [...base.deleted_blobs, ...removed] };
+}
+
+describe('IndexStorage', () => {
+  let projectRoot = '';
+  let logPath = '';
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-sidebar-storage-'));
+    logPath = path.join(projectRoot, '.ace-sidebar', 'index.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('appends only the files that changed', async () => {
+    const storage = new IndexStorage(projectRoot);
+    const base = await storage.commit(createStore({}), createStore({ a: ['a1'], b: ['b1'] }));
+    const size = fs.statSync(logPath).size;
+
+    await storage.commit(base, withFiles(base, { b: ['b2'] }));
+    const appended = fs.readFileSync(logPath, 'utf-8').slice(size).trim().split('\n');
+    assert.strictEqual(appended.length, 2);
+    assert.strictEqual(JSON.parse(appended[0]).path, 'b');
+    assert.ok('commit' in JSON.parse(appended[1]));
+
+    const reloaded = new IndexStorage(projectRoot).read()!;
+    assert.deepStrictEqual(reloaded.file_map, { a: ['a1'], b: ['b2'] });
+    assert.deepStrictEqual(reloaded.blob_names.sort(), ['a1', 'b2']);
+    assert.deepStrictEqual(reloaded.deleted_blobs, ['b1']);
+  });
+
+  it('reads records appended by another process incrementally', async () => {
+    const storage = new IndexStorage(projectRoot);
+    const other = new IndexStorage(projectRoot);
+    const base = await storage.commit(createStore({}), createStore({ a: ['a1'] }));
+    const otherBase = other.read()!;
+
+    await other.commit(otherBase, withFiles(otherBase, { c: ['c1'] }));
+    assert.deepStrictEqual(storage.read()!.file_map, { a: ['a1'], c: ['c1'] });
+
+    // 基于旧版本的修改合并到最新状态之上
+    const merged = await storage.commit(base, withFiles(base, { a: null }));
+    assert.deepStrictEqual(merged.file_map, { c: ['c1'] });
+    assert.deepStrictEqual(other.read()!.file_map, { c: ['c1'] });
+  });
+
+  it('ignores records without a commit marker and drops them on the next save', async () => {
+    const storage = new IndexStorage(projectRoot);
+    const base = await storage.commit(createStore({}), createStore({ a: ['a1'] }));
+    fs.appendFileSync(logPath, JSON.stringify({ path: 'a', blobs: ['broken'] }) + '\n{"path":"b.t');
+
+    const reader = new IndexStorage(projectRoot);
+    assert.deepStrictEqual(reader.read()!.file_map, { a: ['a1'] });
+
+    await reader.commit(base, withFiles(base, { d: ['d1'] }));
+    assert.doesNotMatch(fs.readFileSync(logPath, 'utf-8'), /broken/);
+    assert.deepStrictEqual(new IndexStorage(projectRoot).read()!.file_map, { a: ['a1'], d: ['d1'] });
+  });
+
+  it('migrates a legacy index.json on the first save', async () => {
+    const legacyPath = path.join(projectRoot, '.ace-sidebar', 'index.json');
+    fs.mkdirSync(path.dirname(legacyPath), { recursive: true });
+    fs.writeFileSync(legacyPath, JSON.stringify({ ...createStore({ a: ['a1'] }), version: 2 }, null, 2));
+
+    const storage = new IndexStorage(projectRoot);
+    const legacy = storage.read()!;
+    assert.deepStrictEqual(legacy.file_map, { a: ['a1'] });
+
+    await storage.commit(legacy, withFiles(legacy, { b: ['b1'] }));
+    assert.strictEqual(fs.existsSync(legacyPath), false);
+    assert.deepStrictEqual(new IndexStorage(projectRoot).read()!.file_map, { a: ['a1'], b: ['b1'] });
+  });
+
+  it('compacts the log once most records are stale', async () => {
+    const storage = new IndexStorage(projectRoot);
+    let store = await storage.commit(createStore({}), createStore({ a: ['a0'] }));
+    for (let i = 1; i <= 600; i++) {
+      store = await storage.commit(store, withFiles(store, { a: [`a${i}`] }));
+    }
+
+    const lines = fs.readFileSync(logPath, 'utf-8').trim().split('\n');
+    assert.ok(lines.length < 1000, `expected a compacted log, got ${lines.length} lines`);
+    const reloaded = new IndexStorage(projectRoot).read()!;
+    assert.deepStrictEqual(reloaded.file_map, { a: ['a600'] });
+    assert.ok(reloaded.deleted_blobs.includes('a599'));
+  });
+
+  it('rewrites a log written by a newer version instead of appending to it', async () => {
+    const storage = new IndexStorage(projectRoot);
+    const base = await storage.commit(createStore({}), createStore({ a: ['a1'] }));
+
+    // 更新的版本替换了日志
+    const newer = `${JSON.stringify({ header: { version: 99, backend: 'remote' } })}\n${JSON.stringify({ commit: 1 })}\n`;
+    fs.writeFileSync(`${logPath}.tmp`, newer);
+    fs.renameSync(`${logPath}.tmp`, logPath);
+    assert.strictEqual(storage.read(), null);
+
+    await storage.commit(base, withFiles(base, { b: ['b1'] }));
+    const records = fs.readFileSync(logPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.deepStrictEqual(records[0].header, { version: 3, backend: 'remote' });
+    assert.ok(!records.some((record) => record.header?.version === 99));
+    assert.deepStrictEqual(new IndexStorage(projectRoot).read()!.file_map, { a: ['a1'], b: ['b1'] });
+  });
+
+  it('removes the log and the legacy file when cleared', async () => {
+    const storage = new IndexStorage(projectRoot);
+    await storage.commit(createStore({}), createStore({ a: ['a1'] }));
+
+    await storage.clear();
+    assert.strictEqual(storage.read(), null);
+    assert.strictEqual(fs.existsSync(logPath), false);
+  });
+});
@@ -0,0 +1,62 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { calculateBlobName } from '../../index/backend';
+import { LocalBackend } from '../../index/localBackend';
+import { IndexManager } from '../../index/manager';
+
+const DB_CONTENT = 'export const pool = createPool();\n';
+
+function writeFile(projectRoot: string, relativePath: string, content: string): void {
+  const filePath = path.join(projectRoot, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf-8');
+}
+
+describe('LocalBackend', () => {
+  let projectRoot = '';
+  let manager: IndexManager;
+
+  beforeEach(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-sidebar-local-'));
+    writeFile(projectRoot, 'src/db.ts', DB_CONTENT);
+    writeFile(projectRoot, 'src/auth.ts', 'export function validateToken(token: string) {\n  return token.length > 0;\n}\n');
+    manager = new IndexManager(projectRoot, {
+      baseUrl: '',
+      token: '',
+      textExtensions: new Set(['.ts']),
+      batchSize: 10,
+      backend: 'local'
+    });
+    await manager.indexProject(undefined, undefined, false);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('drops blobs that the saved index no longer references', async () => {
+    const backend = new LocalBackend(projectRoot);
+    const oldName = calculateBlobName('src/db.ts', DB_CONTENT);
+    assert.match(await backend.retrieve({ query: 'pool', blobNames: [oldName], deletedBlobNames: [] }), /src\/db\.ts/);
+
+    writeFile(projectRoot, 'src/db.ts', 'export const pool = createPool({ size: 4 });\n');
+    await manager.indexFiles([path.join(projectRoot, 'src/db.ts')]);
+    assert.strictEqual(await backend.retrieve({ query: 'pool', blobNames: [oldName], deletedBlobNames: [] }), '');
+  });
+
+  it('keeps blobs uploaded by a run that has not saved the index yet', async () => {
+    const backend = new LocalBackend(projectRoot);
+    const blob = { path: 'src/cache.ts', content: 'export const cacheTtl = 60;\n', startLine: 1 };
+    const [name] = await backend.uploadBlobs([blob]);
+
+    // 检索和其他文件的同步都不应丢弃尚未保存到索引的切片
+    await manager.searchCodebase('cacheTtl');
+    writeFile(projectRoot, 'src/auth.ts', 'export const enabled = true;\n');
+    await manager.indexFiles([path.join(projectRoot, 'src/auth.ts')]);
+
+    assert.match(await backend.retrieve({ query: 'cacheTtl', blobNames: [name], deletedBlobNames: [] }), /src\/cache\.ts/);
+  });
+});
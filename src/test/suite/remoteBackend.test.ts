@@ -0,0 +1,131 @@
+import assert from 'assert';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { BackendUnavailableError } from '../../index/backend';
+import { RemoteBackend } from '../../index/remoteBackend';
+import {
+  BATCH_UPLOAD,
+  CHAT_STREAM,
+  CODEBASE_RETRIEVAL,
+  ChatStreamBody,
+  MockBackendServer,
+  RetrievalBody
+} from '../mockServer';
+
+const TOKEN = 'test-token';
+const BLOB = { path: 'src/a.ts', content: 'export const a = 1;\n', startLine: 1 };
+
+function enhanceRequest(query: string) {
+  return { query, blobNames: [], deletedBlobNames: [], editorContext: null, userGuidelines: '' };
+}
+
+describe('RemoteBackend', () => {
+  const server = new MockBackendServer({ token: TOKEN });
+  let backend: RemoteBackend;
+
+  before(async () => {
+    const baseUrl = await server.start();
+    backend = new RemoteBackend({ projectRoot: process.cwd(), baseUrl: `${baseUrl}/`, token: TOKEN });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  describe('retries', () => {
+    it('retries 5xx responses and succeeds', async () => {
+      server.failNext(BATCH_UPLOAD, 503, 502);
+
+      const names = await backend.uploadBlobs([BLOB]);
+      assert.strictEqual(names.length, 1);
+      assert.strictEqual(server.requestsTo(BATCH_UPLOAD).length, 3);
+    });
+
+    it('reports the backend as unavailable once retries are exhausted', async () => {
+      server.failNext(BATCH_UPLOAD, 500, 500, 500);
+
+      await assert.rejects(backend.uploadBlobs([BLOB]), BackendUnavailableError);
+      assert.strictEqual(server.requestsTo(BATCH_UPLOAD).length, 3);
+    });
+
+    it('does not retry client errors', async () => {
+      server.failNext(BATCH_UPLOAD, 400);
+
+      await assert.rejects(backend.uploadBlobs([BLOB]), (error: Error) => !(error instanceof BackendUnavailableError));
+      assert.strictEqual(server.requestsTo(BATCH_UPLOAD).length, 1);
+    });
+  });
+
+  it('sends the recent conversation as dialog', async () => {
+    await backend.retrieve({
+      query: 'where is that called?',
+      blobNames: [],
+      deletedBlobNames: [],
+      dialog: [{ request: 'token validation', response: 'Path: src/auth.ts\nvalidateToken()' }]
+    });
+
+    const [request] = server.requestsTo<RetrievalBody>(CODEBASE_RETRIEVAL);
+    assert.deepStrictEqual(request.body.dialog, [
+      { request_message: 'token validation', response_text: 'Path: src/auth.ts\nvalidateToken()' }
+    ]);
+  });
+
+  describe('authorization errors', () => {
+    it('maps 401 to an invalid token message', async () => {
+      const unauthorized = new RemoteBackend({ projectRoot: process.cwd(), baseUrl: server.url, token: 'wrong' });
+
+      await assert.rejects(unauthorized.uploadBlobs([BLOB]), {
+        message: 'Token 已失效或无效，请在 VSCode 设置中更新 token'
+      });
+      assert.strictEqual(server.requestsTo(BATCH_UPLOAD).length, 1);
+    });
+
+    it('maps 403 to an access denied message', async () => {
+      server.failNext(BATCH_UPLOAD, 403);
+
+      await assert.rejects(backend.uploadBlobs([BLOB]), {
+        message: '访问被拒绝，Token 可能已被官方禁用，请联系服务提供商'
+      });
+      assert.strictEqual(server.requestsTo(BATCH_UPLOAD).length, 1);
+    });
+  });
+
+  describe('prompt enhancement', () => {
+    it('extracts the prompt from text split across stream chunks', async () => {
+      const prompt = await backend.enhancePrompt(enhanceRequest('add a login page'));
+      assert.strictEqual(prompt, 'Enhanced: add a login page');
+
+      const [request] = server.requestsTo<ChatStreamBody>(CHAT_STREAM);
+      assert.match(request.body.nodes[0].text_node?.content ?? '', /add a login page$/);
+    });
+
+    it('prefers the complete text node when the streamed text has no tags', async () => {
+      server.chatStreamLines = [
+        { text: 'partial ' },
+        { text: 'answer' },
+        { nodes: [{ type: 0, content: '<augment-enhanced-prompt>From nodes</augment-enhanced-prompt>' }] }
+      ];
+
+      assert.strictEqual(await backend.enhancePrompt(enhanceRequest('q')), 'From nodes');
+    });
+
+    it('falls back to the response block when the tags are missing', async () => {
+      server.chatStreamLines = [
+        { text: '### BEGIN RESPONSE ###\n' },
+        { text: 'Plain enhanced prompt\n' },
+        { text: '### END RESPONSE ###' }
+      ];
+
+      assert.strictEqual(await backend.enhancePrompt(enhanceRequest('q')), 'Plain enhanced prompt');
+    });
+
+    it('rejects a response without an enhanced prompt', async () => {
+      server.chatStreamLines = [{ text: 'I cannot help with that.' }];
+
+      await assert.rejects(backend.enhancePrompt(enhanceRequest('q')), /无法从响应中提取增强后的提示词/);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { formatLexicalHits } from '../../index/lexicalIndex';
+import { formatHitLocation, parseRetrievalResult, resolveChunkPaths } from '../../index/retrievalResult';
+
+describe('parseRetrievalResult', () => {
+  it('parses the numbered local format', () => {
+    const text = formatLexicalHits([
+      { path: 'src/auth.ts', score: 2, startLine: 10, endLine: 12, snippet: 'function login() {\n  return true;\n}' },
+      { path: 'src/db.ts', score: 1, startLine: 1, endLine: 1, snippet: 'export const pool = 1;' }
+    ]);
+
+    const { hits, notes } = parseRetrievalResult(text);
+    assert.deepStrictEqual(notes, []);
+    assert.deepStrictEqual(hits, [
+      { path: 'src/auth.ts', startLine: 10, endLine: 12, snippet: 'function login() {\n  return true;\n}' },
+      { path: 'src/db.ts', startLine: 1, endLine: 1, snippet: 'export const pool = 1;' }
+    ]);
+  });
+
+  it('splits a file into separate hits at gaps and line jumps', () => {
+    const text = [
+      'The following code sections were retrieved:',
+      'Path: src/a.ts',
+      '     1\timport x;',
+      '     2\t',
+      '...',
+      '    20\tconst a = 1;',
+      '    40\tconst b = 2;'
+    ].join('\n');
+
+    const { hits } = parseRetrievalResult(text);
+    assert.deepStrictEqual(hits.map(formatHitLocation), ['src/a.ts:1-2', 'src/a.ts:20', 'src/a.ts:40']);
+    assert.strictEqual(hits[0].snippet, 'import x;');
+  });
+
+  it('keeps folder sections and notes from multi-root and offline results', () => {
+    const text = [
+      '## web',
+      '',
+      '[Offline lexical results] The retrieval server is unreachable.',
+      '',
+      'The following code sections were retrieved:',
+      '',
+      'Path: src/app.ts',
+      '     3\tstart();',
+      '',
+      '## api',
+      '',
+      'Path: main.go',
+      '     7\tfunc main() {}'
+    ].join('\n');
+
+    const { hits, notes } = parseRetrievalResult(text, ['web', 'api']);
+    assert.deepStrictEqual(notes, ['[Offline lexical results] The retrieval server is unreachable.']);
+    assert.deepStrictEqual(hits.map((hit) => [hit.folder, formatHitLocation(hit)]), [
+      ['web', 'src/app.ts:3'],
+      ['api', 'main.go:7']
+    ]);
+  });
+
+  it('keeps snippets without line numbers verbatim', () => {
+    const text = 'Path: README.md\n## Usage\n\n  npm test\n\n\nPath: b.md\nB';
+
+    const { hits } = parseRetrievalResult(text, ['other']);
+    assert.deepStrictEqual(hits, [
+      { path: 'README.md', snippet: '## Usage\n\n  npm test' },
+      { path: 'b.md', snippet: 'B' }
+    ]);
+    assert.strictEqual(formatHitLocation(hits[0]), 'README.md');
+  });
+
+  it('maps hits on chunks of a remote file to lines of the file', () => {
+    const text = [
+      'The following code sections were retrieved:',
+      'Path: src/a.ts#chunk2of3',
+      '     1\texport function second() {',
+      '     2\t  return 2;',
+      '...',
+      'Path: src/b.ts',
+      '     5\tconst b = 1;',
+      'Path: src/c.ts#chunk3of3',
+      'const c = 3;'
+    ].join('\n');
+    const starts = new Map([['src/a.ts', [1, 41, 90]]]);
+
+    const resolved = resolveChunkPaths(text, (filePath, chunk) => starts.get(filePath)?.[chunk - 1]);
+    assert.deepStrictEqual(parseRetrievalResult(resolved).hits, [
+      { path: 'src/a.ts', startLine: 41, endLine: 42, snippet: 'export function second() {\n  return 2;' },
+      { path: 'src/b.ts', startLine: 5, endLine: 5, snippet: 'const b = 1;' },
+      { path: 'src/c.ts', snippet: 'const c = 3;' }
+    ]);
+
+    // 未经换算的结果也不保留切片后缀
+    assert.deepStrictEqual(parseRetrievalResult(text).hits.map((hit) => hit.path), ['src/a.ts', 'src/b.ts', 'src/c.ts']);
+  });
+
+  it('returns no hits for plain messages', () => {
+    const { hits, notes } = parseRetrievalResult('No relevant code context found for your query.');
+    assert.deepStrictEqual(hits, []);
+    assert.deepStrictEqual(notes, ['No relevant code context found for your query.']);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import * as vscode from 'vscode';
+import { SearchHistory } from '../../services/searchHistory';
+
+const ROOT = '/workspace/app';
+
+function createMemento(): vscode.Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+    update: async (key: string, value: unknown) => {
+      values.set(key, value);
+    }
+  } as vscode.Memento;
+}
+
+function result(...sections: Array<[string, number, string]>): string {
+  return [
+    'The following code sections were retrieved:',
+    ...sections.map(([filePath, line, code]) => `Path: ${filePath}\n${String(line).padStart(6)}\t${code}`)
+  ].join('\n');
+}
+
+describe('SearchHistory', () => {
+  it('reports new and missing results compared with the previous run', async () => {
+    const history = new SearchHistory(createMemento());
+
+    const first = await history.record('auth', [ROOT], undefined, result(['src/a.ts', 1, 'a'], ['src/b.ts', 5, 'b']));
+    assert.strictEqual(first, undefined);
+
+    const second = await history.record('auth', [ROOT], undefined, result(['src/b.ts', 5, 'b'], ['src/c.ts', 9, 'c']));
+    assert.ok(second);
+    assert.deepStrictEqual(second.addedHits, [1]);
+    assert.deepStrictEqual(second.removed, ['src/a.ts:1']);
+
+    const [entry] = history.getEntries();
+    assert.deepStrictEqual(entry.locations, ['src/b.ts:5', 'src/c.ts:9']);
+    assert.deepStrictEqual(entry.lastChanges, { added: 1, removed: 1 });
+  });
+
+  it('keeps one entry per query, folder set and scope, most recent first', async () => {
+    const history = new SearchHistory(createMemento());
+    await history.record('auth', [ROOT], undefined, result(['src/a.ts', 1, 'a']));
+    await history.record('auth', [ROOT], { paths: ['src/'] }, result(['src/a.ts', 1, 'a']));
+    await history.record('db', [ROOT], undefined, 'No relevant code context found for your query.');
+    await history.record('auth', [ROOT], undefined, result(['src/a.ts', 1, 'a']));
+    await history.record('broken', [ROOT], undefined, 'Error: Request failed');
+
+    const entries = history.getEntries();
+    assert.deepStrictEqual(entries.map((entry) => [entry.query, entry.scope]), [
+      ['auth', undefined],
+      ['db', undefined],
+      ['auth', { paths: ['src'] }]
+    ]);
+
+    await history.remove(entries[0].id);
+    assert.strictEqual(history.getEntries().length, 2);
+    await history.clear();
+    assert.deepStrictEqual(history.getEntries(), []);
+  });
+});
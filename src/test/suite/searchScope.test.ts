@@ -0,0 +1,35 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { SearchScopeMatcher, normalizeSearchScope, parseSearchScope } from '../../index/searchScope';
+
+describe('SearchScope', () => {
+  it('parses folders, globs and languages from the scope input', () => {
+    assert.deepStrictEqual(parseSearchScope('./src/api/, *.test.ts lang:Python'), {
+      paths: ['src/api'],
+      globs: ['*.test.ts'],
+      languages: ['python']
+    });
+    assert.strictEqual(parseSearchScope('  , '), undefined);
+    assert.strictEqual(normalizeSearchScope({ paths: ['.', ' '], globs: [] }), undefined);
+  });
+
+  it('matches any entry of a kind and every kind given', () => {
+    const matcher = new SearchScopeMatcher({ paths: ['src/api', 'lib'], languages: ['ts'] });
+    assert.ok(matcher.matches('src/api/user.ts'));
+    assert.ok(matcher.matches('lib/index.tsx'));
+    assert.ok(!matcher.matches('src/apiClient/user.ts'));
+    assert.ok(!matcher.matches('src/api/user.py'));
+  });
+
+  it('uses gitignore syntax for globs and extensions for unknown languages', () => {
+    const globs = new SearchScopeMatcher({ globs: ['*.test.ts', 'services/**/*.go'] });
+    assert.ok(globs.matches('src/deep/a.test.ts'));
+    assert.ok(globs.matches('services/billing/api/handler.go'));
+    assert.ok(!globs.matches('cmd/main.go'));
+
+    const vue = new SearchScopeMatcher({ languages: ['vue', '.JSON'] });
+    assert.ok(vue.matches('web/App.vue'));
+    assert.ok(vue.matches('package.json'));
+    assert.ok(!vue.matches('web/main.ts'));
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * 测试用的 vscode 模块替身 - 只实现索引和检索代码用到的 API，在 Node 中直接运行测试
+ */
+
+import Module from 'module';
+
+type Listener<T> = (value: T) => void;
+
+class Disposable {
+  constructor(private callback: () => void) {}
+
+  dispose(): void {
+    this.callback();
+  }
+}
+
+class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  event = (listener: Listener<T>): Disposable => {
+    this.listeners.push(listener);
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter((item) => item !== listener);
+    });
+  };
+
+  fire(value: T): void {
+    for (const listener of [...this.listeners]) {
+      listener(value);
+    }
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+class CancellationError extends Error {
+  constructor() {
+    super('Canceled');
+    this.name = 'Canceled';
+  }
+}
+
+class CancellationTokenSource {
+  private emitter = new EventEmitter<void>();
+  token = {
+    isCancellationRequested: false,
+    onCancellationRequested: this.emitter.event
+  };
+
+  cancel(): void {
+    if (!this.token.isCancellationRequested) {
+      this.token.isCancellationRequested = true;
+      this.emitter.fire();
+    }
+  }
+
+  dispose(): void {
+    this.emitter.dispose();
+  }
+}
+
+export const workspaceFolders: Array<{ uri: { fsPath: string }; name: string; index: number }> = [];
+
+export const vscodeStub = {
+  Disposable,
+  EventEmitter,
+  CancellationError,
+  CancellationTokenSource,
+  Uri: {
+    file: (fsPath: string) => ({ fsPath, scheme: 'file' })
+  },
+  window: {
+    activeTextEditor: undefined,
+    createOutputChannel: () => ({
+      appendLine: (line: string) => {
+        if (process.env.ACE_TEST_LOG) {
+          console.log(line);
+        }
+      },
+      show: () => undefined,
+      dispose: () => undefined
+    })
+  },
+  workspace: {
+    get workspaceFolders() {
+      return workspaceFolders;
+    },
+    getWorkspaceFolder: (uri: { fsPath: string }) =>
+      workspaceFolders.find((folder) => uri.fsPath.startsWith(folder.uri.fsPath)),
+    getConfiguration: () => ({
+      get: <T>(_key: string, defaultValue?: T) => defaultValue
+    })
+  }
+};
+
+/**
+ * 让 require('vscode') 返回替身，需在加载被测模块之前调用
+ */
+export function installVscodeStub(): void {
+  const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+  const originalLoad = loader._load;
+  loader._load = function (request: string, ...rest: unknown[]) {
+    if (request === 'vscode') {
+      return vscodeStub;
+    }
+    return originalLoad.call(this, request, ...rest);
+  };
+}
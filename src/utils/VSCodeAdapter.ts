@@ -5,6 +5,7 @@
 
 import * as vscode from 'vscode';
 import { Config } from '../config';
+import { SecretPolicy } from '../index/secretScanner';
 
 // 创建输出通道
 const outputChannel = vscode.window.createOutputChannel('Ace Sidebar');
@@ -15,39 +16,54 @@ const outputChannel = vscode.window.createOutputChannel('Ace Sidebar');
 export function getVSCodeConfig(): Config {
   const config = vscode.workspace.getConfiguration('ace-sidebar');
   
+  const backend = (config.get<string>('backend', 'remote') || 'remote').trim();
   const baseUrlInput = (config.get<string>('baseUrl', '') || '').trim();
   const token = (config.get<string>('token', '') || '').trim();
 
-  if (!baseUrlInput) {
-    throw new Error('baseUrl 不能为空，请在设置中填写 API 基础地址');
-  }
-  if (!token) {
-    throw new Error('token 不能为空，请在设置中填写认证令牌');
-  }
+  // 本地后端不需要服务地址和令牌
+  let normalizedBaseUrl = '';
+  if (backend === 'remote') {
+    if (!baseUrlInput) {
+      throw new Error('baseUrl 不能为空，请在设置中填写 API 基础地址');
+    }
+    if (!token) {
+      throw new Error('token 不能为空，请在设置中填写认证令牌');
+    }
 
-  // 确保 baseUrl 包含协议前缀
-  let normalizedBaseUrl = baseUrlInput;
-  if (!normalizedBaseUrl.startsWith('http://') && !normalizedBaseUrl.startsWith('https://')) {
-    normalizedBaseUrl = `https://${normalizedBaseUrl}`;
-  }
-  normalizedBaseUrl = normalizedBaseUrl.replace(/\/$/, ''); // 移除末尾斜杠
-  try {
-    const parsedUrl = new URL(normalizedBaseUrl);
-    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
-      throw new Error('baseUrl 必须使用 http 或 https 协议');
+    // 确保 baseUrl 包含协议前缀
+    normalizedBaseUrl = baseUrlInput;
+    if (!normalizedBaseUrl.startsWith('http://') && !normalizedBaseUrl.startsWith('https://')) {
+      normalizedBaseUrl = `https://${normalizedBaseUrl}`;
     }
-    if (!parsedUrl.hostname) {
-      throw new Error('baseUrl 缺少有效的主机名');
+    normalizedBaseUrl = normalizedBaseUrl.replace(/\/$/, ''); // 移除末尾斜杠
+    try {
+      const parsedUrl = new URL(normalizedBaseUrl);
+      if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+        throw new Error('baseUrl 必须使用 http 或 https 协议');
+      }
+      if (!parsedUrl.hostname) {
+        throw new Error('baseUrl 缺少有效的主机名');
+      }
+    } catch {
+      throw new Error('baseUrl 格式不正确，请填写完整的 URL，例如 https://api.example.com');
     }
-  } catch {
-    throw new Error('baseUrl 格式不正确，请填写完整的 URL，例如 https://api.example.com');
   }
 
   return {
+    backend,
     baseUrl: normalizedBaseUrl,
     token,
     batchSize: config.get<number>('batchSize', 10),
+    uploadConcurrency: config.get<number>('uploadConcurrency', 4),
     maxLinesPerBlob: config.get<number>('maxLinesPerBlob', 800),
+    maxFileSizeKB: config.get<number>('maxFileSizeKB', 512),
+    maxLineLength: config.get<number>('maxLineLength', 1000),
+    encodingOverrides: config.get<Record<string, string>>('encodingOverrides', {}) || {},
+    previewBeforeFirstIndex: config.get<boolean>('previewBeforeFirstIndex', true),
+    secretPolicy: config.get<SecretPolicy>('secretPolicy', 'redact'),
+    secretAllowlist: (config.get<string[]>('secretAllowlist', []) || [])
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0),
     textExtensions: new Set(
       (config.get<string[]>('textExtensions', []) || [])
         .map((item) => item.trim())
@@ -58,6 +74,9 @@ export function getVSCodeConfig(): Config {
       .filter((item) => item.length > 0),
     enableLog: config.get<boolean>('enableLog', false),
     userGuidelines: (config.get<string>('userGuidelines', '') || '').trim() || undefined,
+    dialogTurns: Math.max(0, config.get<number>('dialogTurns', 3)),
+    commitRetrieval: config.get<boolean>('commitRetrieval', false),
+    commitHistoryDepth: Math.max(1, config.get<number>('commitHistoryDepth', 100)),
     mcpServerPort: config.get<number>('mcpServerPort', 13000),
     enableMcpServer: config.get<boolean>('enableMcpServer', true)
   };
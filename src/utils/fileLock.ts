@@ -0,0 +1,150 @@
+/**
+ * 文件锁与原子写入
+ * 多个 VSCode 窗口、MCP Server 等进程共用同一份索引文件时，用锁文件串行化读改写，
+ * 先写临时文件再重命名，写入中途崩溃不会留下损坏的文件
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { sendLog } from './VSCodeAdapter';
+
+// 持有锁超过该时间视为持有者已卡死，可以强制接管
+const LOCK_STALE_MS = 10000;
+// 等待锁的最长时间，超过后放弃本次写入
+const LOCK_TIMEOUT_MS = 15000;
+const LOCK_RETRY_MS = 25;
+// Windows 上目标文件被其他进程短暂打开时重命名会失败，稍后重试
+const RENAME_RETRIES = 5;
+
+interface LockInfo {
+  pid: number;
+  acquiredAt: number;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 同步等待，只用于持锁区间内重命名失败后的短暂重试
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM 表示进程存在但无权发送信号
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * 锁的持有进程已退出，或持有时间过长时视为过期
+ */
+function isLockStale(lockPath: string): boolean {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+    const info = JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as LockInfo;
+    return typeof info.pid === 'number' && info.pid !== process.pid && !isProcessAlive(info.pid);
+  } catch (error) {
+    // 锁文件已被释放；或刚创建尚未写入内容，交给超时判断
+    return false;
+  }
+}
+
+/**
+ * 等待锁时让出事件循环，其他进程持锁期间不阻塞扩展宿主
+ */
+async function acquireLock(lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const info: LockInfo = { pid: process.pid, acquiredAt: Date.now() };
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      try {
+        fs.writeSync(fd, JSON.stringify(info));
+      } finally {
+        fs.closeSync(fd);
+      }
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (isLockStale(lockPath)) {
+      sendLog('warning', `Removing stale lock: ${lockPath}`);
+      try {
+        fs.unlinkSync(lockPath);
+      } catch {
+        // 其他进程已先一步接管
+      }
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock: ${lockPath}`);
+    }
+    await delay(LOCK_RETRY_MS);
+  }
+}
+
+function releaseLock(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (error) {
+    sendLog('warning', `Failed to release lock ${lockPath}: ${error}`);
+  }
+}
+
+/**
+ * 持有 `<filePath>.lock` 期间执行 fn，同一文件的所有写入方都应通过此函数修改文件
+ * fn 是同步的，持锁期间不会让出事件循环
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  await acquireLock(lockPath);
+  try {
+    return fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * 写入同目录下的临时文件后重命名为目标文件，读取方只会看到完整的旧内容或新内容
+ */
+export function writeFileAtomic(filePath: string, data: string): void {
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, data, 'utf-8');
+    for (let attempt = 1; ; attempt++) {
+      try {
+        fs.renameSync(tempPath, filePath);
+        return;
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if ((code !== 'EPERM' && code !== 'EBUSY' && code !== 'EACCES') || attempt >= RENAME_RETRIES) {
+          throw error;
+        }
+        sleepSync(LOCK_RETRY_MS * attempt);
+      }
+    }
+  } catch (error) {
+    try {
+      fs.unlinkSync(tempPath);
+    } catch {
+      // 临时文件未创建或已被重命名
+    }
+    throw error;
+  }
+}
@@ -97,11 +97,11 @@ function addToGitignore(projectRoot: string): void {
  * 获取索引文件路径
  *
  * @param projectRoot 项目根目录
- * @returns index.json 文件路径
+ * @returns index.jsonl 文件路径
  */
 export function getIndexFilePath(projectRoot: string): string {
   const aceDir = getAceDir(projectRoot);
-  return path.join(aceDir, 'index.json');
+  return path.join(aceDir, 'index.jsonl');
 }
 
 /**
@@ -5,8 +5,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ChatService, ChatMessage } from '../services/ChatService';
-import { IndexProgressUpdate } from '../index/manager';
+import { IndexProgressUpdate, isCancellationError } from '../index/manager';
+import { RetrievalHit, parseRetrievalResult } from '../index/retrievalResult';
+import { parseSearchScope } from '../index/searchScope';
 import { getVSCodeConfig } from '../utils/VSCodeAdapter';
+import { SearchResultChanges } from '../services/searchHistory';
+import { openRetrievalHit } from './searchResults';
 
 /**
  * MCP Server 状态接口
@@ -27,6 +31,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private chatService?: ChatService;
   private messages: ChatMessage[] = [];
+  // 当前话题的第一条消息下标，之前的消息不再作为对话上下文发送
+  private topicStart = 0;
   private lastIndexProgress: IndexProgressUpdate | null = null;
   private isFirstVisit: boolean = false;
   private isConfigured: boolean = false;
@@ -94,7 +100,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    */
   private initializeWorkspaceName(): void {
     const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (workspaceFolders && workspaceFolders.length > 0) {
+    if (workspaceFolders && workspaceFolders.length > 1) {
+      this.workspaceName = vscode.workspace.name || path.basename(workspaceFolders[0].uri.fsPath);
+    } else if (workspaceFolders && workspaceFolders.length > 0) {
       this.workspaceName = path.basename(workspaceFolders[0].uri.fsPath);
     } else {
       this.workspaceName = 'No Workspace';
@@ -107,7 +115,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    */
   private setupEditorChangeListener(): void {
     // 监听活动编辑器变化事件
-    this.editorChangeDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
+    this.editorChangeDisposable = vscode.window.onDidChangeActiveTextEditor(() => {
       // 当编辑器切换或关闭时，只更新编辑器上下文信息
       // 不重新发送整个消息列表，避免前端重新渲染聊天记录
       this.updateEditorContextOnly();
@@ -132,7 +140,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    * - workspaceName: 始终返回（项目目录应始终显示）
    * - fileName: 仅当有文件打开时返回，否则为 null
    */
-  private getEditorContextForUI(): { workspaceName: string; fileName: string | null } {
+  private getEditorContextForUI(): { workspaceName: string; fileName: string | null; folders: string[] } {
     const activeEditor = vscode.window.activeTextEditor;
     
     // workspaceName 始终使用缓存的工作区名称（在插件启动时固定获取）
@@ -151,7 +159,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     
     return {
       workspaceName: this.workspaceName, // 始终返回工作区名称
-      fileName: fileName // 当没有打开文件时为 null
+      fileName: fileName, // 当没有打开文件时为 null
+      folders: (vscode.workspace.workspaceFolders || []).map((folder) => folder.name) // 多个文件夹时显示搜索范围选择
     };
   }
 
@@ -159,9 +168,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    * 解析 WebviewView
    */
   public resolveWebviewView(
-    webviewView: vscode.WebviewView,
-    context: vscode.WebviewViewResolveContext,
-    _token: vscode.CancellationToken
+    webviewView: vscode.WebviewView
   ): void {
     this._view = webviewView;
 
@@ -173,7 +180,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       localResourceRoots: [this._extensionUri]
     };
 
-    webviewView.webview.html = this.getWebviewContent(webviewView.webview);
+    webviewView.webview.html = this.getWebviewContent();
 
     // 处理来自 WebView 的消息
     webviewView.webview.onDidReceiveMessage(
@@ -183,14 +190,23 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             await this.handleUserMessage(message.text);
             break;
           case 'codebaseSearch':
-            await this.handleCodebaseSearch(message.text);
+            await this.handleCodebaseSearch(message.text, message.folder, message.scope);
             break;
           case 'promptEnhancement':
-            await this.handlePromptEnhancement(message.text);
+            await this.handlePromptEnhancement(message.text, message.folder);
+            break;
+          case 'cancelOperation':
+            this.chatService?.cancelActiveOperation();
+            break;
+          case 'openSearchResult':
+            await this.handleOpenSearchResult(message.hit);
             break;
           case 'clearChat':
             this.clearChat();
             break;
+          case 'newTopic':
+            this.startNewTopic();
+            break;
           case 'openSettings':
             vscode.commands.executeCommand('workbench.action.openSettings', 'ace-sidebar');
             break;
@@ -202,10 +218,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             break;
           case 'getMcpStatus':
             // 返回 MCP 状态
-            const status = this.getMcpStatus();
             webviewView.webview.postMessage({
               command: 'mcpStatus',
-              status
+              status: this.getMcpStatus()
             });
             break;
           case 'copyMcpConfig':
@@ -227,7 +242,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   /**
    * 处理代码搜索
    */
-  private async handleCodebaseSearch(userMessage: string): Promise<void> {
+  private async handleCodebaseSearch(userMessage: string, folder?: string, scopeText?: string): Promise<void> {
     if (!userMessage.trim() || !this.chatService) {
       return;
     }
@@ -241,6 +256,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       });
       return;
     }
+    const history = this.messages.slice(this.topicStart);
 
     // 添加用户消息
     const userMsg: ChatMessage = {
@@ -264,7 +280,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     try {
       // 使用 ChatService 处理代码搜索
-      const result = await this.chatService!.handleCodebaseSearch(userMessage);
+      const { result, changes } = await this.chatService!.handleCodebaseSearch(
+        userMessage,
+        folder,
+        parseSearchScope(scopeText),
+        history
+      );
 
       // 移除加载消息，添加实际回复
       this.messages.pop();
@@ -272,13 +293,24 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         id: this.generateMessageId(),
         role: 'assistant',
         content: result || '抱歉，没有找到相关信息。',
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...this.parseSearchResult(result, changes)
       };
       this.messages.push(assistantMsg);
       this.updateWebview();
     } catch (error) {
       // 移除加载消息，添加错误消息
       this.messages.pop();
+      if (isCancellationError(error)) {
+        this.messages.push({
+          id: this.generateMessageId(),
+          role: 'assistant',
+          content: '已取消',
+          timestamp: Date.now()
+        });
+        this.updateWebview();
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
       const errorMsg: ChatMessage = {
@@ -295,7 +327,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   /**
    * 处理提示词增强
    */
-  private async handlePromptEnhancement(userMessage: string): Promise<void> {
+  private async handlePromptEnhancement(userMessage: string, folder?: string): Promise<void> {
     if (!userMessage.trim() || !this.chatService) {
       return;
     }
@@ -332,7 +364,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     try {
       // 使用 ChatService 处理提示词增强
-      const result = await this.chatService!.handlePromptEnhancement(userMessage);
+      const result = await this.chatService!.handlePromptEnhancement(userMessage, folder);
 
       // 移除加载消息，添加实际回复
       this.messages.pop();
@@ -347,6 +379,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     } catch (error) {
       // 移除加载消息，添加错误消息
       this.messages.pop();
+      if (isCancellationError(error)) {
+        this.messages.push({
+          id: this.generateMessageId(),
+          role: 'assistant',
+          content: '已取消',
+          timestamp: Date.now()
+        });
+        this.updateWebview();
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
       const errorMsg: ChatMessage = {
@@ -377,6 +419,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     if (!userMessage.trim() || !this.chatService) {
       return;
     }
+    const history = this.messages.slice(this.topicStart);
 
     // 添加用户消息
     const userMsg: ChatMessage = {
@@ -400,7 +443,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     try {
       // 使用 ChatService 处理消息
-      const result = await this.chatService!.handleMessageForView(userMessage);
+      const { result, changes } = await this.chatService!.handleMessageForView(userMessage, undefined, undefined, history);
 
       // 移除加载消息，添加实际回复
       this.messages.pop();
@@ -408,13 +451,24 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         id: this.generateMessageId(),
         role: 'assistant',
         content: result || '抱歉，没有找到相关信息。',
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...this.parseSearchResult(result, changes)
       };
       this.messages.push(assistantMsg);
       this.updateWebview();
     } catch (error) {
       // 移除加载消息，添加错误消息
       this.messages.pop();
+      if (isCancellationError(error)) {
+        this.messages.push({
+          id: this.generateMessageId(),
+          role: 'assistant',
+          content: '已取消',
+          timestamp: Date.now()
+        });
+        this.updateWebview();
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
       const errorMsg: ChatMessage = {
@@ -428,11 +482,47 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * 将搜索结果解析为代码片段卡片，无法解析出片段时按原始文本显示
+   */
+  private parseSearchResult(result: string, changes?: SearchResultChanges): Pick<ChatMessage, 'hits' | 'notes' | 'changes'> {
+    const folderNames = (vscode.workspace.workspaceFolders || []).map((folder) => folder.name);
+    const { hits, notes } = parseRetrievalResult(result || '', folderNames);
+    return hits.length > 0 ? { hits, notes, ...(changes ? { changes } : {}) } : {};
+  }
+
+  /**
+   * 在编辑器中打开搜索结果卡片对应的文件和行范围
+   */
+  private async handleOpenSearchResult(hit: RetrievalHit | undefined): Promise<void> {
+    if (!hit || typeof hit.path !== 'string') {
+      return;
+    }
+    try {
+      await openRetrievalHit(hit);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Ace Sidebar: Failed to open ${hit.path}: ${message}`);
+    }
+  }
+
   /**
    * 清空聊天记录
    */
   private clearChat(): void {
     this.messages = [];
+    this.topicStart = 0;
+    this.updateWebview();
+  }
+
+  /**
+   * 开始新话题：保留聊天记录，之后的搜索不再携带之前的对话
+   */
+  private startNewTopic(): void {
+    if (this.topicStart === this.messages.length) {
+      return;
+    }
+    this.topicStart = this.messages.length;
     this.updateWebview();
   }
 
@@ -446,6 +536,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       this._view.webview.postMessage({
         command: 'updateMessages',
         messages: this.messages,
+        topicStart: this.topicStart,
         isFirstVisit: this.isFirstVisit,
         isConfigured: this.isConfigured,
         editorContext: editorContext,
@@ -538,14 +629,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   /**
    * 获取 WebView HTML 内容
    */
-  private getWebviewContent(webview: vscode.Webview): string {
+  private getWebviewContent(): string {
     // 内联 SVG 图标
     const settingsIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"></path><circle cx="12" cy="12" r="3"></circle></svg>`;
+    const newTopicIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path><line x1="12" y1="7" x2="12" y2="13"></line><line x1="9" y1="10" x2="15" y2="10"></line></svg>`;
     const trashIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>`;
     const searchIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="11" cy="11" r="8"></circle><path d="m21 21-4.35-4.35"></path></svg>`;
     const sparklesIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L21 12l-5.813-1.912a2 2 0 0 1-1.275-1.275L12 3Z"></path><path d="M5 3v4"></path><path d="M19 17v4"></path><path d="M3 5h4"></path><path d="M17 19h4"></path></svg>`;
     const copyIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect width="14" height="14" x="8" y="8" rx="2" ry="2"></rect><path d="M4 16c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2h8c1.1 0 2 .9 2 2"></path></svg>`;
-    const checkIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>`;
     const folderIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path></svg>`;
     const fileIcon: string = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline></svg>`;
 
@@ -800,6 +891,111 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             font-size: 0.9em;
         }
 
+        .message-content.search-result {
+            white-space: normal;
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+        }
+
+        .result-note {
+            font-size: 12px;
+            color: var(--muted);
+        }
+
+        .result-card {
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            background-color: var(--vscode-textCodeBlock-background);
+            cursor: pointer;
+            overflow: hidden;
+        }
+
+        .result-card:hover,
+        .result-card:focus {
+            border-color: var(--vscode-focusBorder);
+            outline: none;
+        }
+
+        .result-card-header {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 4px 8px;
+            font-size: 12px;
+            border-bottom: 1px solid var(--border);
+        }
+
+        .result-location {
+            color: var(--vscode-textLink-foreground);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .result-folder {
+            color: var(--muted);
+            flex-shrink: 0;
+        }
+
+        .topic-divider {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: 11px;
+            color: var(--muted);
+        }
+
+        .topic-divider::before,
+        .topic-divider::after {
+            content: '';
+            flex: 1;
+            border-top: 1px solid var(--border);
+        }
+
+        .result-new {
+            margin-left: auto;
+            padding: 0 6px;
+            border-radius: 8px;
+            font-size: 10px;
+            color: var(--vscode-badge-foreground);
+            background-color: var(--vscode-badge-background);
+            flex-shrink: 0;
+        }
+
+        .result-changes {
+            font-size: 12px;
+            color: var(--muted);
+            border-left: 2px solid var(--accent);
+            padding-left: 8px;
+        }
+
+        .result-changes ul {
+            margin: 4px 0 0;
+            padding-left: 16px;
+        }
+
+        .message-content .result-snippet {
+            margin: 0;
+            border: none;
+            border-radius: 0;
+            max-height: 240px;
+            overflow: auto;
+            white-space: pre;
+        }
+
+        .result-raw summary {
+            cursor: pointer;
+            font-size: 12px;
+            color: var(--muted);
+        }
+
+        .result-raw pre {
+            max-height: 320px;
+            overflow: auto;
+            white-space: pre;
+        }
+
         .empty-state {
             margin: auto;
             text-align: center;
@@ -861,6 +1057,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             font-weight: 500;
         }
 
+        .folder-select {
+            background: var(--surface-alt);
+            color: var(--text);
+            border: 1px solid var(--border);
+            border-radius: 3px;
+            font-size: 11px;
+            padding: 1px 4px;
+        }
+
         .progress-info {
             display: flex;
             align-items: center;
@@ -880,6 +1085,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-inputValidation-errorBorder);
         }
 
+        .progress-cancel {
+            background: transparent;
+            border: none;
+            padding: 0;
+            color: var(--vscode-textLink-foreground);
+            font-size: 11px;
+            cursor: pointer;
+        }
+
+        .progress-cancel:hover {
+            text-decoration: underline;
+        }
+
         .context-info-hidden {
             visibility: hidden;
         }
@@ -918,6 +1136,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             box-shadow: 0 1px 2px rgba(0, 0, 0, 0.05);
         }
 
+        .scope-input {
+            margin-bottom: 6px;
+            padding: 4px 8px;
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 4px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            font-family: var(--vscode-font-family);
+            font-size: 11px;
+        }
+
+        .scope-input:focus {
+            outline: 1px solid var(--vscode-focusBorder);
+            outline-offset: -1px;
+        }
+
         .input-row textarea:focus {
             outline: 2px solid var(--vscode-focusBorder);
             outline-offset: -2px;
@@ -1053,6 +1287,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 <button id="settingsBtn" title="Open Settings">
                     ${settingsIcon}
                 </button>
+                <button id="newTopicBtn" title="New topic: follow-up searches no longer include the conversation above" tabindex="-1">
+                    ${newTopicIcon}
+                </button>
                 <button id="clearBtn" title="Clear chat" tabindex="-1">
                     ${trashIcon}
                 </button>
@@ -1073,6 +1310,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     <div class="context-item">
                         <span class="context-icon">${folderIcon}</span>
                         <span class="context-value" id="workspaceName">-</span>
+                        <select class="folder-select" id="folderSelect" title="搜索范围" style="display: none;"></select>
                     </div>
                     <div class="context-item" id="fileContextItem" style="display: none;">
                         <span class="context-icon">${fileIcon}</span>
@@ -1082,10 +1320,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 <div class="progress-info">
                     <span id="progressMessage">Ready</span>
                     <span class="progress-percent" id="progressPercent">0%</span>
+                    <button class="progress-cancel" id="progressCancelBtn" title="取消当前操作" style="display: none;">Cancel</button>
                 </div>
             </div>
             <div class="input-row">
                 <div class="input-wrapper">
+                    <input
+                        type="text"
+                        class="scope-input"
+                        id="scopeInput"
+                        placeholder="Scope (optional): src/api, *.test.ts, lang:python"
+                        title="只在这些目录、通配符或语言的文件中搜索，以逗号或空格分隔"
+                    />
                     <textarea
                         id="messageInput"
                         placeholder="Ask about your code... (Enter to search, Shift+Enter for newline)"
@@ -1117,15 +1363,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const messagesContainer = document.getElementById('messagesContainer');
         const messageInput = document.getElementById('messageInput');
         const clearBtn = document.getElementById('clearBtn');
+        const newTopicBtn = document.getElementById('newTopicBtn');
         const settingsBtn = document.getElementById('settingsBtn');
         const codebaseSearchBtn = document.getElementById('codebaseSearchBtn');
         const promptEnhanceBtn = document.getElementById('promptEnhanceBtn');
         const contextInfo = document.getElementById('contextInfo');
         const workspaceName = document.getElementById('workspaceName');
+        const folderSelect = document.getElementById('folderSelect');
+        const scopeInput = document.getElementById('scopeInput');
         const fileName = document.getElementById('fileName');
         const fileContextItem = document.getElementById('fileContextItem');
         const progressMessage = document.getElementById('progressMessage');
         const progressPercent = document.getElementById('progressPercent');
+        const progressCancelBtn = document.getElementById('progressCancelBtn');
         const mcpStatusBar = document.getElementById('mcpStatusBar');
         const mcpStatusIndicator = document.getElementById('mcpStatusIndicator');
         const mcpStatusText = document.getElementById('mcpStatusText');
@@ -1133,6 +1383,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         let isProcessing = false;
         let isFirstVisit = false;
         let isConfigured = false; // 初始值，会在 updateMessages 时更新
+        let currentMessages = [];
+        let topicStart = 0;
 
         /**
          * 更新 MCP 状态显示
@@ -1186,10 +1438,38 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 fileContextItem.style.display = 'none'; // 隐藏文件图标和文件名
             }
             
+            updateFolderSelect(context && context.folders ? context.folders : []);
+
             // context-info 区域始终可见（不再隐藏）
             contextInfo.classList.remove('context-info-hidden');
         }
 
+        /**
+         * 多根工作区时显示搜索范围选择，保留当前选择
+         */
+        function updateFolderSelect(folders) {
+            if (folders.length < 2) {
+                folderSelect.style.display = 'none';
+                folderSelect.innerHTML = '';
+                return;
+            }
+
+            const selected = folderSelect.value;
+            folderSelect.innerHTML = '';
+            const allOption = document.createElement('option');
+            allOption.value = '';
+            allOption.textContent = 'All folders';
+            folderSelect.appendChild(allOption);
+            folders.forEach((name) => {
+                const option = document.createElement('option');
+                option.value = name;
+                option.textContent = name;
+                folderSelect.appendChild(option);
+            });
+            folderSelect.value = folders.includes(selected) ? selected : '';
+            folderSelect.style.display = '';
+        }
+
         function formatTime(timestamp) {
             const date = new Date(timestamp);
             return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
@@ -1201,7 +1481,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             }
             const percent = typeof update.percent === 'number' ? update.percent : 0;
             const safePercent = Math.max(0, Math.min(100, percent));
-            progressMessage.textContent = update.message || 'Processing...';
+            const queued = update.queued > 0 ? ' · ' + update.queued + ' queued' : '';
+            progressMessage.textContent = (update.message || 'Processing...') + queued;
             progressPercent.textContent = safePercent.toFixed(0) + '%';
             
             if (update.stage === 'error') {
@@ -1209,8 +1490,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             } else {
                 progressPercent.classList.remove('error');
             }
+
+            // 进行中的阶段显示取消按钮
+            const finished = ['idle', 'complete', 'error', 'cancelled'].includes(update.stage);
+            progressCancelBtn.style.display = finished ? 'none' : '';
+            progressCancelBtn.disabled = false;
         }
 
+        progressCancelBtn.addEventListener('click', () => {
+            progressCancelBtn.disabled = true;
+            vscode.postMessage({ command: 'cancelOperation' });
+        });
+
         function renderConfigRequired() {
             if (isConfigured) {
                 return '';
@@ -1284,10 +1575,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 return;
             }
 
+            currentMessages = messages;
+            // 新话题之后的搜索不携带分隔线之前的对话
+            const topicDividerHtml = '<div class="topic-divider"><span>New topic</span></div>';
             messagesContainer.innerHTML = configRequiredHtml + guideHtml + messages.map((msg, index) => {
                 const roleText = msg.role === 'user' ? 'You' : 'Ace Sidebar';
                 const roleClass = msg.role;
-                const cleanedContent = cleanMessageContent(msg.content);
+                const hasHits = Array.isArray(msg.hits) && msg.hits.length > 0;
+                // 搜索结果复制原始文本，保留代码缩进
+                const cleanedContent = hasHits ? msg.content : cleanMessageContent(msg.content);
                 const messageId = 'msg-' + index;
                 // 将内容转义为 HTML 属性值
                 const escapedContent = cleanedContent
@@ -1296,14 +1592,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     .replace(/>/g, '&gt;')
                     .replace(/"/g, '&quot;')
                     .replace(/'/g, '&#39;');
-                return \`
+                return (index > 0 && index === topicStart ? topicDividerHtml : '') + \`
                     <div class="message \${roleClass}">
                         <div class="message-header">
                             <span class="message-role">\${roleText}</span>
                             <span class="message-time">\${formatTime(msg.timestamp)}</span>
                         </div>
                         <div class="message-content-wrapper">
-                            <div class="message-content" id="content-\${messageId}">\${escapeHtml(cleanedContent)}</div>
+                            \${hasHits
+                                ? '<div class="message-content search-result" id="content-' + messageId + '">' + renderSearchHits(msg, index) + '</div>'
+                                : '<div class="message-content" id="content-' + messageId + '">' + escapeHtml(cleanedContent) + '</div>'}
                             <button class="message-copy-btn" 
                                     data-message-id="\${messageId}" 
                                     data-content="\${escapedContent}"
@@ -1313,7 +1611,25 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                         </div>
                     </div>
                 \`;
-            }).join('');
+            }).join('') + (topicStart > 0 && topicStart === messages.length ? topicDividerHtml : '');
+
+            // 点击搜索结果卡片在编辑器中打开对应位置（选中文本时不跳转，便于复制）
+            messagesContainer.querySelectorAll('.result-card').forEach(card => {
+                const openHit = () => {
+                    const msg = currentMessages[Number(card.getAttribute('data-message-index'))];
+                    const hit = msg && msg.hits ? msg.hits[Number(card.getAttribute('data-hit-index'))] : null;
+                    if (hit) {
+                        vscode.postMessage({ command: 'openSearchResult', hit });
+                    }
+                };
+                card.addEventListener('click', () => {
+                    if (window.getSelection().toString()) return;
+                    openHit();
+                });
+                card.addEventListener('keydown', (e) => {
+                    if (e.key === 'Enter') openHit();
+                });
+            });
 
             // 绑定复制按钮事件
             messagesContainer.querySelectorAll('.message-copy-btn').forEach(btn => {
@@ -1358,6 +1674,44 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             messagesContainer.scrollTop = messagesContainer.scrollHeight;
         }
 
+        function formatHitLocation(hit) {
+            if (typeof hit.startLine !== 'number') return hit.path;
+            return typeof hit.endLine === 'number' && hit.endLine !== hit.startLine
+                ? hit.path + ':' + hit.startLine + '-' + hit.endLine
+                : hit.path + ':' + hit.startLine;
+        }
+
+        /**
+         * 将搜索结果渲染为可点击的代码片段卡片，原始文本折叠在末尾
+         */
+        function renderSearchHits(msg, messageIndex) {
+            const notesHtml = (msg.notes || []).map(note => '<div class="result-note">' + escapeText(note) + '</div>').join('');
+            const changes = msg.changes;
+            const changesHtml = changes
+                ? '<div class="result-changes">Compared with the previous run (' + escapeText(new Date(changes.previousTimestamp).toLocaleString()) + '): '
+                    + changes.addedHits.length + ' new, ' + changes.removed.length + ' no longer returned'
+                    + (changes.removed.length > 0 ? '<ul>' + changes.removed.map(location => '<li>' + escapeText(location) + '</li>').join('') + '</ul>' : '')
+                    + '</div>'
+                : '';
+            const cardsHtml = msg.hits.map((hit, hitIndex) => {
+                const location = escapeText(formatHitLocation(hit));
+                const folderHtml = hit.folder ? '<span class="result-folder">' + escapeText(hit.folder) + '</span>' : '';
+                const newHtml = changes && changes.addedHits.includes(hitIndex) ? '<span class="result-new">new</span>' : '';
+                return '<div class="result-card" tabindex="0" data-message-index="' + messageIndex + '" data-hit-index="' + hitIndex + '" title="Open ' + location + '">'
+                    + '<div class="result-card-header">' + folderHtml + '<span class="result-location">' + location + '</span>' + newHtml + '</div>'
+                    + '<pre class="result-snippet"><code>' + escapeText(hit.snippet) + '</code></pre>'
+                    + '</div>';
+            }).join('');
+            const rawHtml = '<details class="result-raw"><summary>Raw result</summary><pre>' + escapeText(msg.content) + '</pre></details>';
+            return notesHtml + changesHtml + cardsHtml + rawHtml;
+        }
+
+        function escapeText(text) {
+            const div = document.createElement('div');
+            div.textContent = text || '';
+            return div.innerHTML.replace(/"/g, '&quot;');
+        }
+
         function decodeHtmlEntities(text) {
             const div = document.createElement('div');
             div.innerHTML = text;
@@ -1398,7 +1752,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             // 默认使用代码搜索
             vscode.postMessage({
                 command: 'codebaseSearch',
-                text: text
+                text: text,
+                folder: folderSelect.value,
+                scope: scopeInput.value
             });
 
             messageInput.value = '';
@@ -1408,11 +1764,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         function updateUIState() {
             if (!isConfigured) {
                 messageInput.disabled = true;
+                scopeInput.disabled = true;
                 codebaseSearchBtn.disabled = true;
                 promptEnhanceBtn.disabled = true;
                 messageInput.placeholder = '请先完成配置才能使用...';
             } else {
                 messageInput.disabled = false;
+                scopeInput.disabled = false;
                 codebaseSearchBtn.disabled = false;
                 promptEnhanceBtn.disabled = false;
                 messageInput.placeholder = 'Ask about your code... (Enter to search, Shift+Enter for newline)';
@@ -1437,7 +1795,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
             vscode.postMessage({
                 command: 'codebaseSearch',
-                text: text
+                text: text,
+                folder: folderSelect.value,
+                scope: scopeInput.value
             });
 
             messageInput.value = '';
@@ -1462,13 +1822,20 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
             vscode.postMessage({
                 command: 'promptEnhancement',
-                text: text
+                text: text,
+                folder: folderSelect.value
             });
 
             messageInput.value = '';
             messageInput.style.height = 'auto';
         }
 
+        newTopicBtn.addEventListener('click', () => {
+            vscode.postMessage({
+                command: 'newTopic'
+            });
+        });
+
         clearBtn.addEventListener('click', () => {
             vscode.postMessage({
                 command: 'clearChat'
@@ -1491,6 +1858,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             }
         });
 
+        // 在范围输入框中按 Enter 同样发起搜索，范围在多次搜索间保留
+        scopeInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                sendMessage();
+            }
+        });
+
         messageInput.addEventListener('input', () => {
             messageInput.style.height = 'auto';
             messageInput.style.height = Math.min(messageInput.scrollHeight, 180) + 'px';
@@ -1502,6 +1877,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 case 'updateMessages':
                     isFirstVisit = message.isFirstVisit || false;
                     isConfigured = message.isConfigured || false;
+                    topicStart = message.topicStart || 0;
                     renderMessages(message.messages || []);
                     updateEditorContext(message.editorContext);
                     updateMcpStatus(message.mcpStatus);
@@ -0,0 +1,33 @@
+/**
+ * 报告文档提供者 - 以只读文档展示索引预览和校验结果，关闭时不会提示保存
+ */
+
+import * as vscode from 'vscode';
+
+export class ReportDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  public static readonly scheme = 'ace-sidebar-report';
+
+  private reports = new Map<string, string>();
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange: vscode.Event<vscode.Uri> = this.changeEmitter.event;
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.reports.get(uri.path) || '';
+  }
+
+  /**
+   * 打开（或刷新已打开的）报告，同名报告复用同一个文档
+   */
+  async show(title: string, content: string): Promise<void> {
+    const uri = vscode.Uri.from({ scheme: ReportDocumentProvider.scheme, path: `/${title}.md` });
+    this.reports.set(uri.path, content);
+    this.changeEmitter.fire(uri);
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(document, { preview: true, preserveFocus: true });
+  }
+
+  dispose(): void {
+    this.reports.clear();
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * 搜索历史视图 - 按最近运行时间列出历史搜索，点击重新运行
+ */
+
+import * as vscode from 'vscode';
+import { describeSearchScope } from '../index/searchScope';
+import { getWorkspaceFolderName } from '../index/workspaceFolders';
+import { SearchHistory, SearchHistoryEntry } from '../services/searchHistory';
+
+/**
+ * 历史条目在列表和快速选择中显示的说明：文件夹、范围、片段数和运行时间
+ */
+export function describeSearchHistoryEntry(entry: SearchHistoryEntry): string {
+  const parts: string[] = [];
+  if ((vscode.workspace.workspaceFolders || []).length > 1) {
+    parts.push(entry.projectRoots.map(getWorkspaceFolderName).join(', '));
+  }
+  if (entry.scope) {
+    parts.push(describeSearchScope(entry.scope));
+  }
+  parts.push(`${entry.locations.length} ${entry.locations.length === 1 ? 'result' : 'results'}`);
+  if (entry.lastChanges && (entry.lastChanges.added > 0 || entry.lastChanges.removed > 0)) {
+    parts.push(`+${entry.lastChanges.added} −${entry.lastChanges.removed}`);
+  }
+  parts.push(new Date(entry.timestamp).toLocaleString());
+  return parts.join(' · ');
+}
+
+export class SearchHistoryItem extends vscode.TreeItem {
+  constructor(public readonly entry: SearchHistoryEntry) {
+    super(entry.query, vscode.TreeItemCollapsibleState.None);
+    this.description = describeSearchHistoryEntry(entry);
+    this.tooltip = `${entry.query}\n${this.description}\nClick to run the search again`;
+    this.iconPath = new vscode.ThemeIcon('history');
+    this.contextValue = 'aceSearchHistoryEntry';
+    this.command = { command: 'ace-sidebar.rerunSearch', title: 'Re-run Search', arguments: [this] };
+  }
+}
+
+export class SearchHistoryProvider implements vscode.TreeDataProvider<SearchHistoryItem>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly history: SearchHistory) {
+    this.disposables.push(history.onDidChange(() => this.changeEmitter.fire()));
+  }
+
+  getTreeItem(element: SearchHistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: SearchHistoryItem): SearchHistoryItem[] {
+    if (element) {
+      return [];
+    }
+    return this.history.getEntries().map((entry) => new SearchHistoryItem(entry));
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.changeEmitter.dispose();
+  }
+}
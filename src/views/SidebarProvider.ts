@@ -1,8 +1,58 @@
 /**
- * 侧边栏视图提供者
+ * 侧边栏视图提供者 - 索引浏览树
+ * 按工作区文件夹和目录列出已索引的文件，显示切片数和最近同步时间，并标出等待上传、上传失败和被跳过的文件
+ * 索引保存和任务队列状态变化时刷新
  */
 
+import path from 'path';
 import * as vscode from 'vscode';
+import { IndexFolderStatus, IndexJobQueue } from '../index/jobQueue';
+import { IndexManager, IndexOverview, onDidChangeIndex } from '../index/manager';
+import { getWorkspaceFolderName, getWorkspaceFolderRoots } from '../index/workspaceFolders';
+
+// 连续的索引事件合并后再刷新（毫秒）
+const REFRESH_DEBOUNCE_DELAY = 300;
+
+type IndexFileStatus = 'indexed' | 'pending' | 'failed' | 'excluded';
+
+type SidebarItemKind = 'folder' | 'directory' | 'file' | 'message';
+
+interface FileNode {
+  name: string;
+  relativePath: string;
+  status: IndexFileStatus;
+  chunks: number;
+  detail?: string;
+}
+
+interface DirectoryNode {
+  name: string;
+  relativePath: string;
+  directories: Map<string, DirectoryNode>;
+  files: Map<string, FileNode>;
+  // 目录自身在同步队列中（例如整个目录被重命名）
+  pending: boolean;
+  counts: Record<IndexFileStatus, number> & { chunks: number };
+}
+
+interface FolderSnapshot {
+  tree: DirectoryNode;
+  syncedAt?: number;
+  running: IndexFolderStatus['running'];
+}
+
+const RUNNING_LABELS: Record<NonNullable<IndexFolderStatus['running']>, string> = {
+  full: 'indexing…',
+  files: 'syncing…',
+  maintenance: 'updating…'
+};
+
+const CONTEXT_VALUES: Record<SidebarItemKind, string> = {
+  folder: 'aceIndexFolder',
+  directory: 'aceIndexDirectory',
+  file: 'aceIndexFile',
+  message: 'aceSidebarItem'
+};
 
 /**
  * 侧边栏树节点
@@ -11,24 +61,94 @@ export class SidebarItem extends vscode.TreeItem {
   constructor(
     public readonly label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly command?: vscode.Command,
-    public readonly iconPath?: vscode.ThemeIcon
+    public readonly kind: SidebarItemKind,
+    public readonly projectRoot: string = '',
+    public readonly relativePath: string = ''
   ) {
     super(label, collapsibleState);
     this.tooltip = label;
-    this.contextValue = 'aceSidebarItem';
+    this.contextValue = CONTEXT_VALUES[kind];
+  }
+
+  get fsPath(): string {
+    return path.join(this.projectRoot, this.relativePath);
   }
 }
 
+function createDirectoryNode(name: string, relativePath: string): DirectoryNode {
+  return {
+    name,
+    relativePath,
+    directories: new Map(),
+    files: new Map(),
+    pending: false,
+    counts: { indexed: 0, pending: 0, failed: 0, excluded: 0, chunks: 0 }
+  };
+}
+
+function formatSyncTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString() ? date.toLocaleTimeString() : date.toLocaleString();
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeCounts(node: DirectoryNode): string {
+  const { counts } = node;
+  const parts = [plural(counts.indexed, 'file'), plural(counts.chunks, 'chunk')];
+  if (counts.pending > 0 || node.pending) {
+    parts.push(counts.pending > 0 ? `${counts.pending} pending` : 'pending');
+  }
+  if (counts.failed > 0) {
+    parts.push(`${counts.failed} failed`);
+  }
+  if (counts.excluded > 0) {
+    parts.push(`${counts.excluded} excluded`);
+  }
+  return parts.join(' · ');
+}
+
 /**
  * 侧边栏数据提供者
  */
-export class SidebarProvider implements vscode.TreeDataProvider<SidebarItem> {
+export class SidebarProvider implements vscode.TreeDataProvider<SidebarItem>, vscode.Disposable {
   private _onDidChangeTreeData: vscode.EventEmitter<SidebarItem | undefined | null | void> = new vscode.EventEmitter<SidebarItem | undefined | null | void>();
   private isConfigured: boolean = false;
   readonly onDidChangeTreeData: vscode.Event<SidebarItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
+  private indexQueue: IndexJobQueue | null = null;
+  // 按文件夹缓存的索引概览，只在该文件夹的索引保存后重新读取
+  private overviews = new Map<string, IndexOverview>();
+  private snapshots = new Map<string, FolderSnapshot>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param createIndexManager 为文件夹创建 IndexManager（读取最新配置），返回 null 表示未配置
+   */
+  constructor(
+    private readonly createIndexManager: (projectRoot: string) => IndexManager | null
+  ) {
+    this.disposables.push(
+      onDidChangeIndex((event) => {
+        this.overviews.delete(event.projectRoot);
+        this.scheduleRefresh();
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh())
+    );
+  }
+
+  setIndexQueue(indexQueue: IndexJobQueue): void {
+    this.indexQueue = indexQueue;
+    this.disposables.push(indexQueue.onDidChange(() => this.scheduleRefresh()));
+    this.scheduleRefresh();
+  }
+
   refresh(): void {
+    this.overviews.clear();
+    this.snapshots.clear();
     this._onDidChangeTreeData.fire();
   }
 
@@ -37,14 +157,248 @@ export class SidebarProvider implements vscode.TreeDataProvider<SidebarItem> {
     this.refresh();
   }
 
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      return;
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.snapshots.clear();
+      this._onDidChangeTreeData.fire();
+    }, REFRESH_DEBOUNCE_DELAY);
+  }
+
   getTreeItem(element: SidebarItem): vscode.TreeItem {
     return element;
   }
 
   getChildren(element?: SidebarItem): Thenable<SidebarItem[]> {
-    // 移除所有菜单项，点击图标直接进入 chat 界面
-    return Promise.resolve([]);
+    if (!element) {
+      return Promise.resolve(this.getRootItems());
+    }
+    if (element.kind !== 'folder' && element.kind !== 'directory') {
+      return Promise.resolve([]);
+    }
+
+    const snapshot = this.getSnapshot(element.projectRoot);
+    const node = this.findDirectory(snapshot.tree, element.relativePath);
+    if (!node) {
+      return Promise.resolve([]);
+    }
+    if (element.kind === 'folder' && node.directories.size === 0 && node.files.size === 0) {
+      return Promise.resolve([this.createMessageItem('Not indexed yet')]);
+    }
+
+    const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+    return Promise.resolve([
+      ...[...node.directories.values()].sort(byName).map((child) => this.createDirectoryItem(element.projectRoot, child)),
+      ...[...node.files.values()].sort(byName).map((file) => this.createFileItem(element.projectRoot, file))
+    ]);
   }
 
-}
+  private getRootItems(): SidebarItem[] {
+    if (!this.isConfigured) {
+      const item = this.createMessageItem('Configure Ace Sidebar to start indexing');
+      item.command = { command: 'ace-sidebar.openSettings', title: 'Open Settings' };
+      item.iconPath = new vscode.ThemeIcon('gear');
+      return [item];
+    }
+
+    const projectRoots = getWorkspaceFolderRoots();
+    if (projectRoots.length === 0) {
+      return [this.createMessageItem('No workspace folder open')];
+    }
+    return projectRoots.map((projectRoot) => this.createFolderItem(projectRoot, projectRoots.length === 1));
+  }
+
+  private createMessageItem(message: string): SidebarItem {
+    return new SidebarItem(message, vscode.TreeItemCollapsibleState.None, 'message');
+  }
+
+  private createFolderItem(projectRoot: string, expanded: boolean): SidebarItem {
+    const snapshot = this.getSnapshot(projectRoot);
+    const item = new SidebarItem(
+      getWorkspaceFolderName(projectRoot),
+      expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+      'folder',
+      projectRoot
+    );
+
+    const parts = [describeCounts(snapshot.tree)];
+    if (snapshot.running) {
+      parts.push(RUNNING_LABELS[snapshot.running]);
+    } else if (snapshot.syncedAt) {
+      parts.push(`synced ${formatSyncTime(snapshot.syncedAt)}`);
+    }
+    item.description = parts.join(' · ');
+    item.tooltip = [
+      projectRoot,
+      describeCounts(snapshot.tree),
+      snapshot.syncedAt ? `Last sync: ${new Date(snapshot.syncedAt).toLocaleString()}` : 'Never synced'
+    ].join('\n');
+    item.iconPath = new vscode.ThemeIcon(snapshot.running ? 'sync~spin' : 'root-folder');
+    return item;
+  }
+
+  private createDirectoryItem(projectRoot: string, node: DirectoryNode): SidebarItem {
+    const item = new SidebarItem(
+      node.name,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      'directory',
+      projectRoot,
+      node.relativePath
+    );
+    item.resourceUri = vscode.Uri.file(item.fsPath);
+    item.iconPath = vscode.ThemeIcon.Folder;
+    item.description = describeCounts(node);
+    item.tooltip = `${node.relativePath}\n${describeCounts(node)}`;
+    return item;
+  }
+
+  private createFileItem(projectRoot: string, file: FileNode): SidebarItem {
+    const item = new SidebarItem(
+      file.name,
+      vscode.TreeItemCollapsibleState.None,
+      'file',
+      projectRoot,
+      file.relativePath
+    );
+    const uri = vscode.Uri.file(item.fsPath);
+    item.resourceUri = uri;
+    item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+
+    switch (file.status) {
+      case 'pending':
+        item.description = 'pending upload';
+        item.iconPath = new vscode.ThemeIcon('cloud-upload');
+        break;
+      case 'failed':
+        item.description = 'upload failed';
+        item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+        break;
+      case 'excluded':
+        item.description = `excluded · ${file.detail}`;
+        item.iconPath = new vscode.ThemeIcon('circle-slash');
+        break;
+      default:
+        item.description = plural(file.chunks, 'chunk');
+        item.iconPath = vscode.ThemeIcon.File;
+    }
+    item.tooltip = `${file.relativePath}\n${item.description}`;
+    return item;
+  }
+
+  private getSnapshot(projectRoot: string): FolderSnapshot {
+    let snapshot = this.snapshots.get(projectRoot);
+    if (!snapshot) {
+      snapshot = this.buildSnapshot(projectRoot);
+      this.snapshots.set(projectRoot, snapshot);
+    }
+    return snapshot;
+  }
 
+  private getOverview(projectRoot: string): IndexOverview {
+    let overview = this.overviews.get(projectRoot);
+    if (!overview) {
+      const indexManager = this.isConfigured ? this.createIndexManager(projectRoot) : null;
+      overview = indexManager ? indexManager.getIndexOverview() : { files: {}, failed: {}, skipped: [] };
+      this.overviews.set(projectRoot, overview);
+    }
+    return overview;
+  }
+
+  /**
+   * 合并索引记录和队列状态生成目录树，后写入的状态覆盖先写入的状态
+   */
+  private buildSnapshot(projectRoot: string): FolderSnapshot {
+    const overview = this.getOverview(projectRoot);
+    const tree = createDirectoryNode('', '');
+
+    for (const [relativePath, chunks] of Object.entries(overview.files)) {
+      this.addFile(tree, relativePath, 'indexed').chunks = chunks;
+    }
+    for (const relativePath of Object.keys(overview.failed)) {
+      this.addFile(tree, relativePath, 'failed');
+    }
+    for (const skipped of overview.skipped) {
+      this.addFile(tree, skipped.path, 'excluded').detail = skipped.reason;
+    }
+
+    const status = this.indexQueue?.getFolderStatus(projectRoot);
+    for (const fsPath of status?.pendingPaths || []) {
+      const relativePath = path.relative(projectRoot, fsPath).replace(/\\/g, '/');
+      if (!relativePath || relativePath.startsWith('..')) {
+        continue;
+      }
+      const directory = this.findDirectory(tree, relativePath);
+      if (directory) {
+        directory.pending = true;
+      } else {
+        this.addFile(tree, relativePath, 'pending');
+      }
+    }
+
+    this.countFiles(tree);
+    return { tree, syncedAt: overview.syncedAt, running: status?.running || null };
+  }
+
+  private addFile(tree: DirectoryNode, relativePath: string, status: IndexFileStatus): FileNode {
+    const parts = relativePath.split('/');
+    const name = parts.pop() || relativePath;
+    let directory = tree;
+    for (const part of parts) {
+      let child = directory.directories.get(part);
+      if (!child) {
+        child = createDirectoryNode(part, directory.relativePath ? `${directory.relativePath}/${part}` : part);
+        directory.directories.set(part, child);
+      }
+      directory = child;
+    }
+
+    let file = directory.files.get(name);
+    if (!file) {
+      file = { name, relativePath, status, chunks: 0 };
+      directory.files.set(name, file);
+    }
+    file.status = status;
+    return file;
+  }
+
+  private findDirectory(tree: DirectoryNode, relativePath: string): DirectoryNode | null {
+    let directory: DirectoryNode | undefined = tree;
+    for (const part of relativePath.split('/').filter((segment) => segment.length > 0)) {
+      directory = directory.directories.get(part);
+      if (!directory) {
+        return null;
+      }
+    }
+    return directory;
+  }
+
+  private countFiles(node: DirectoryNode): void {
+    for (const child of node.directories.values()) {
+      this.countFiles(child);
+      node.counts.indexed += child.counts.indexed;
+      node.counts.pending += child.counts.pending;
+      node.counts.failed += child.counts.failed;
+      node.counts.excluded += child.counts.excluded;
+      node.counts.chunks += child.counts.chunks;
+    }
+    for (const file of node.files.values()) {
+      node.counts[file.status]++;
+      node.counts.chunks += file.chunks;
+    }
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this._onDidChangeTreeData.dispose();
+  }
+}
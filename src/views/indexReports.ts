@@ -0,0 +1,165 @@
+/**
+ * 索引报告 - 将索引预览、校验结果和密钥报告格式化为 Markdown
+ */
+
+import path from 'path';
+import { IndexPreview, IndexVerifyReport, SecretReportEntry } from '../index/manager';
+import { FINGERPRINT_PREFIX, INLINE_ALLOW_MARKER } from '../index/secretScanner';
+
+// 每个文件列表最多列出的条目数
+const MAX_LISTED_FILES = 200;
+
+interface PreviewGroup {
+  name: string;
+  files: number;
+  chunks: number;
+  bytes: number;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function listItems(items: string[]): string[] {
+  const lines = items.slice(0, MAX_LISTED_FILES).map((item) => `- ${item}`);
+  if (items.length > MAX_LISTED_FILES) {
+    lines.push(`- … and ${items.length - MAX_LISTED_FILES} more`);
+  }
+  return lines;
+}
+
+/**
+ * 按分组键汇总文件，按字节数从大到小排列
+ */
+function groupPreviewFiles(preview: IndexPreview, keyOf: (filePath: string) => string): PreviewGroup[] {
+  const groups = new Map<string, PreviewGroup>();
+  for (const file of preview.files) {
+    const name = keyOf(file.path);
+    let group = groups.get(name);
+    if (!group) {
+      group = { name, files: 0, chunks: 0, bytes: 0 };
+      groups.set(name, group);
+    }
+    group.files++;
+    group.chunks += file.chunks;
+    group.bytes += file.bytes;
+  }
+  return [...groups.values()].sort((a, b) => b.bytes - a.bytes);
+}
+
+function formatGroupTable(title: string, groups: PreviewGroup[]): string[] {
+  return [
+    `| ${title} | Files | Chunks | Size |`,
+    '| --- | ---: | ---: | ---: |',
+    ...groups.map((group) => `| \`${group.name}\` | ${group.files} | ${group.chunks} | ${formatBytes(group.bytes)} |`),
+    ''
+  ];
+}
+
+/**
+ * 生成索引预览报告：按扩展名和顶层目录汇总，并列出待上传的文件
+ */
+export function formatIndexPreview(folderName: string, preview: IndexPreview): string {
+  const totalChunks = preview.files.reduce((sum, file) => sum + file.chunks, 0);
+  const totalBytes = preview.files.reduce((sum, file) => sum + file.bytes, 0);
+
+  const lines = [
+    `# Index preview: ${folderName}`,
+    '',
+    `**${preview.files.length} files · ${totalChunks} chunks · ${formatBytes(totalBytes)}** would be uploaded.`,
+    `${preview.unchangedFiles} files are already indexed, ${preview.skipped.length} files are skipped.`,
+    '',
+    'Nothing has been uploaded yet. Add paths to `.aceignore` to exclude them, then refresh the preview.',
+    ''
+  ];
+  if (preview.files.length === 0) {
+    return lines.join('\n');
+  }
+
+  lines.push('## By extension', '');
+  lines.push(...formatGroupTable('Extension', groupPreviewFiles(preview, (filePath) => path.extname(filePath).toLowerCase() || '(none)')));
+  lines.push('## By folder', '');
+  lines.push(...formatGroupTable('Folder', groupPreviewFiles(preview, (filePath) => {
+    const slash = filePath.indexOf('/');
+    return slash === -1 ? '(root)' : `${filePath.slice(0, slash)}/`;
+  })));
+
+  lines.push('## Files', '', '| File | Chunks | Size |', '| --- | ---: | ---: |');
+  for (const file of preview.files.slice(0, MAX_LISTED_FILES)) {
+    lines.push(`| \`${file.path}\` | ${file.chunks} | ${formatBytes(file.bytes)} |`);
+  }
+  if (preview.files.length > MAX_LISTED_FILES) {
+    lines.push(`| … and ${preview.files.length - MAX_LISTED_FILES} more | | |`);
+  }
+  lines.push('');
+
+  if (preview.skipped.length > 0) {
+    lines.push('## Skipped', '');
+    lines.push(...listItems(preview.skipped.map((file) => `\`${file.path}\` (${file.reason}: ${file.detail})`)));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 生成索引校验报告
+ */
+export function formatVerifyReport(folderName: string, report: IndexVerifyReport): string {
+  const sections: Array<[string, string, string[]]> = [
+    ['Missing', 'files on disk that are not in the index', report.missing],
+    ['Stale', 'indexed content differs from the file on disk', report.stale],
+    ['Orphaned', 'indexed files that were deleted, ignored or are now skipped', report.orphaned]
+  ];
+
+  const lines = [
+    `# Index verification: ${folderName}`,
+    '',
+    `Checked ${report.checkedFiles} files at ${new Date().toLocaleString()}.`,
+    ''
+  ];
+  for (const [title, description, files] of sections) {
+    lines.push(`## ${title} (${files.length})`, '', `_${description}_`, '');
+    lines.push(...(files.length === 0 ? ['None'] : listItems(files.map((file) => `\`${file}\``))), '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 生成密钥报告：列出上传前被替换的密钥和因此跳过的文件，不包含密钥原文
+ */
+export function formatSecretReport(folderName: string, entries: SecretReportEntry[], policy: string): string {
+  const lines = [`# Withheld secrets: ${folderName}`, '', `Policy: \`${policy}\``, ''];
+  if (entries.length === 0) {
+    lines.push('No secrets were detected in indexed files.');
+    return lines.join('\n');
+  }
+
+  const findings = entries.reduce((sum, entry) => sum + entry.findings.length, 0);
+  lines.push(
+    `**${findings} ${findings === 1 ? 'secret' : 'secrets'}** in ${entries.length} ${entries.length === 1 ? 'file' : 'files'} ${findings === 1 ? 'was' : 'were'} withheld from upload.`,
+    '',
+    `False positives can be allowed with \`ace-sidebar.secretAllowlist\`: add a path pattern, ` +
+      `\`${FINGERPRINT_PREFIX}<fingerprint>\` from the table below, or put \`${INLINE_ALLOW_MARKER}\` in a comment on the line.`,
+    ''
+  );
+  for (const [action, title] of [['redacted', 'Redacted'], ['skipped', 'Skipped files']] as const) {
+    const group = entries.filter((entry) => entry.action === action);
+    if (group.length === 0) {
+      continue;
+    }
+    lines.push(`## ${title} (${group.length})`, '', '| File | Line | Rule | Preview | Fingerprint |', '| --- | ---: | --- | --- | --- |');
+    for (const entry of group) {
+      for (const finding of entry.findings) {
+        lines.push(`| \`${entry.path}\` | ${finding.line} | ${finding.rule} | \`${finding.preview}\` | \`${finding.fingerprint}\` |`);
+      }
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
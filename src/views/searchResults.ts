@@ -0,0 +1,155 @@
+/**
+ * 搜索结果跳转 - 在编辑器中打开检索结果对应的文件并选中结果的行范围
+ * 提交历史结果通过内置 Git 扩展打开该提交的变更
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as vscode from 'vscode';
+import { CommitFileChange, parseCommitPath, readCommitFiles } from '../index/commitHistory';
+import { RetrievalHit, formatHitLocation } from '../index/retrievalResult';
+
+// 内置 Git 扩展 API 中用到的部分
+interface GitApi {
+  toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitApi;
+}
+
+/**
+ * 在工作区文件夹中查找结果文件，指定了文件夹时只在该文件夹中查找
+ */
+function resolveHitPath(hit: RetrievalHit): string | undefined {
+  if (path.isAbsolute(hit.path)) {
+    return fs.existsSync(hit.path) ? hit.path : undefined;
+  }
+  const folders = (vscode.workspace.workspaceFolders || [])
+    .filter((folder) => !hit.folder || folder.name === hit.folder);
+  for (const folder of folders) {
+    const fullPath = path.join(folder.uri.fsPath, hit.path);
+    if (fs.existsSync(fullPath)) {
+      return fullPath;
+    }
+  }
+  return undefined;
+}
+
+async function getGitApi(): Promise<GitApi | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!extension) {
+    return undefined;
+  }
+  const exports = extension.isActive ? extension.exports : await extension.activate();
+  return exports.getAPI(1);
+}
+
+/**
+ * 在结果所属的工作区文件夹中查找提交，返回仓库根目录和变更的文件
+ */
+async function findCommit(hit: RetrievalHit, hash: string): Promise<{ root: string; files: CommitFileChange[] } | undefined> {
+  const folders = (vscode.workspace.workspaceFolders || [])
+    .filter((folder) => !hit.folder || folder.name === hit.folder);
+  for (const folder of folders) {
+    try {
+      return { root: folder.uri.fsPath, files: await readCommitFiles(folder.uri.fsPath, hash) };
+    } catch {
+      // 提交不在该文件夹的仓库中
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 以源代码管理中查看提交的方式打开提交的变更
+ */
+async function openCommitHit(hit: RetrievalHit, hash: string): Promise<void> {
+  const shortHash = hash.slice(0, 8);
+  const commit = await findCommit(hit, hash);
+  if (!commit) {
+    vscode.window.showWarningMessage(`Ace Sidebar: Commit ${shortHash} not found in workspace`);
+    return;
+  }
+  const git = await getGitApi();
+  if (!git) {
+    vscode.window.showWarningMessage('Ace Sidebar: The built-in Git extension is required to show commit changes');
+    return;
+  }
+
+  const changes = commit.files.map((file) => {
+    const uri = vscode.Uri.file(path.join(commit.root, file.path));
+    const originalUri = vscode.Uri.file(path.join(commit.root, file.originalPath ?? file.path));
+    return {
+      uri,
+      original: file.status === 'A' ? undefined : git.toGitUri(originalUri, `${hash}~1`),
+      modified: file.status === 'D' ? undefined : git.toGitUri(uri, hash)
+    };
+  });
+  const title = `Commit ${shortHash}`;
+  if (changes.length === 0) {
+    vscode.window.showInformationMessage(`Ace Sidebar: ${title} has no file changes`);
+    return;
+  }
+
+  const commands = await vscode.commands.getCommands(true);
+  if (commands.includes('vscode.changes')) {
+    await vscode.commands.executeCommand(
+      'vscode.changes',
+      title,
+      changes.map((change) => [change.uri, change.original, change.modified])
+    );
+  } else {
+    // 旧版本没有多文件变更编辑器，逐个选择文件查看
+    const picked = changes.length === 1 ? changes[0] : await vscode.window.showQuickPick(
+      changes.map((change) => ({ label: vscode.workspace.asRelativePath(change.uri), change })),
+      { placeHolder: `${title}: select a file to compare` }
+    ).then((item) => item?.change);
+    if (!picked) {
+      return;
+    }
+    const label = `${path.basename(picked.uri.fsPath)} (${title})`;
+    if (picked.original && picked.modified) {
+      await vscode.commands.executeCommand('vscode.diff', picked.original, picked.modified, label);
+    } else {
+      await vscode.window.showTextDocument((picked.modified ?? picked.original)!, { preview: true });
+    }
+  }
+
+  // 不等待通知关闭
+  void vscode.window.showInformationMessage(`Ace Sidebar: ${title}`, 'Open Source Control').then((action) => {
+    if (action) {
+      void vscode.commands.executeCommand('workbench.view.scm');
+    }
+  });
+}
+
+export async function openRetrievalHit(hit: RetrievalHit): Promise<void> {
+  const commitHash = parseCommitPath(hit.path);
+  if (commitHash) {
+    await openCommitHit(hit, commitHash);
+    return;
+  }
+
+  const filePath = resolveHitPath(hit);
+  if (!filePath) {
+    vscode.window.showWarningMessage(`Ace Sidebar: File not found in workspace: ${hit.path}`);
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+  let selection: vscode.Range | undefined;
+  if (hit.startLine !== undefined && document.lineCount > 0) {
+    const lastLine = document.lineCount - 1;
+    const start = Math.min(Math.max(hit.startLine - 1, 0), lastLine);
+    const end = Math.min(Math.max((hit.endLine ?? hit.startLine) - 1, start), lastLine);
+    selection = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+    if (end < hit.startLine - 1) {
+      vscode.window.showWarningMessage(`Ace Sidebar: ${formatHitLocation(hit)} is beyond the end of the file, it may have changed since indexing`);
+    }
+  }
+  const editor = await vscode.window.showTextDocument(document, { selection, preview: true });
+  if (selection) {
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+}